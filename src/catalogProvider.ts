@@ -25,9 +25,9 @@ export class FlinkCatalogProvider implements vscode.TreeDataProvider<CatalogTree
     // Pending requests to avoid duplicate concurrent fetches
     private pendingRequests = new Map<string, Promise<any>>();
 
-    constructor(context: vscode.ExtensionContext, gatewayUrl: string, jobManagerUrl: string, sessionManager: SessionManager) {
+    constructor(context: vscode.ExtensionContext, client: FlinkGatewayClient, sessionManager: SessionManager) {
         this.context = context;
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+        this.client = client;
         this.sessionManager = sessionManager;
 
         // Refresh on session changes
@@ -36,8 +36,8 @@ export class FlinkCatalogProvider implements vscode.TreeDataProvider<CatalogTree
         );
     }
 
-    updateConnection(gatewayUrl: string, jobManagerUrl: string) {
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+    updateClient(client: FlinkGatewayClient) {
+        this.client = client;
         this.refresh();
     }
 
@@ -240,7 +240,8 @@ export class FlinkCatalogProvider implements vscode.TreeDataProvider<CatalogTree
 
         return this.cachedFetch(cacheKey, async () => {
             Logger.info(`[Explorer] Fetching objects for ${catalog}.${database}`);
-            return await this.client.listTablesWithKindInDatabase(handle, catalog, database);
+            return await this.client.listTablesWithKindInDatabase(handle, catalog, database,
+                expired => this.sessionManager.getMetadataSession(handle, expired));
         });
     }
 
@@ -0,0 +1,94 @@
+// Shared by the extension host and the notebook renderer, keep free of vscode imports.
+
+export type RowKind = 'INSERT' | 'UPDATE_BEFORE' | 'UPDATE_AFTER' | 'DELETE';
+
+// Notation used by the Flink SQL client
+export const ROW_KIND_SHORT: Record<RowKind, string> = {
+    INSERT: '+I',
+    UPDATE_BEFORE: '-U',
+    UPDATE_AFTER: '+U',
+    DELETE: '-D'
+};
+
+export interface ChangelogRow {
+    kind?: RowKind;
+    fields: any[];
+}
+
+// Rows without a kind (e.g. PLAIN_TEXT results) are plain inserts
+export function rowKind(row: ChangelogRow): RowKind {
+    return row.kind || 'INSERT';
+}
+
+/**
+ * Applies a changelog stream to a table so it always holds the current result.
+ * Result rows have no key, so identity is the full set of field values:
+ * -U/-D remove the most recent equal row, +I appends, and +U takes the place
+ * of the row retracted by the preceding -U so updated rows stay where they were.
+ */
+export class ChangelogMaterializer {
+    private rows: ChangelogRow[] = [];
+    private keys: string[] = [];
+    // Position freed by the last -U, filled by the following +U
+    private pendingUpdateIndex: number | undefined;
+    private _hasRetractions = false;
+
+    // Without maxRows the table keeps every row (batch results)
+    constructor(private readonly maxRows: number = Infinity) { }
+
+    apply(changes: ChangelogRow[]) {
+        for (const change of changes) {
+            this.applyOne(change);
+        }
+    }
+
+    // Current table, rows without a kind
+    getRows(): ChangelogRow[] {
+        return this.rows;
+    }
+
+    // True once an update or delete was seen, i.e. the changelog differs from the table
+    get hasRetractions(): boolean {
+        return this._hasRetractions;
+    }
+
+    private applyOne(change: ChangelogRow) {
+        const kind = rowKind(change);
+        const row: ChangelogRow = { fields: change.fields };
+        const key = JSON.stringify(change.fields);
+
+        switch (kind) {
+            case 'INSERT':
+                this.insertAt(this.rows.length, row, key);
+                this.pendingUpdateIndex = undefined;
+                break;
+            case 'UPDATE_AFTER':
+                this._hasRetractions = true;
+                this.insertAt(this.pendingUpdateIndex ?? this.rows.length, row, key);
+                this.pendingUpdateIndex = undefined;
+                break;
+            case 'UPDATE_BEFORE':
+            case 'DELETE': {
+                this._hasRetractions = true;
+                const index = this.keys.lastIndexOf(key);
+                if (index !== -1) {
+                    this.rows.splice(index, 1);
+                    this.keys.splice(index, 1);
+                }
+                this.pendingUpdateIndex = kind === 'UPDATE_BEFORE' && index !== -1 ? index : undefined;
+                break;
+            }
+        }
+    }
+
+    private insertAt(index: number, row: ChangelogRow, key: string) {
+        this.rows.splice(index, 0, row);
+        this.keys.splice(index, 0, key);
+
+        // Like the SQL client's table mode, drop the oldest rows beyond the limit
+        if (this.rows.length > this.maxRows) {
+            this.rows.shift();
+            this.keys.shift();
+        }
+    }
+}
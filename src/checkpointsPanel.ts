@@ -0,0 +1,249 @@
+import { FlinkGatewayClient } from './flinkClient';
+import { JobPanel } from './jobPanel';
+import { WebviewHelper } from './utils/webviewHelper';
+
+interface OperatorCheckpointStats {
+    vertexId: string;
+    name: string;
+    // TaskCheckpointStatistics of the operator
+    task: any;
+    // Min/avg/max over subtasks (alignment, start delay, sync/async), null if unavailable
+    summary: any | null;
+}
+
+/**
+ * Checkpoint statistics of one job: counts, configuration, latest checkpoints,
+ * history and a per-operator drill-down of the selected checkpoint.
+ */
+export class CheckpointsPanel extends JobPanel {
+    private selectedCheckpointId: number | undefined;
+    // Drill-downs of finished checkpoints never change
+    private operatorCache = new Map<number, OperatorCheckpointStats[]>();
+
+    static show(client: FlinkGatewayClient, jobId: string, jobName?: string) {
+        JobPanel.open('flinkCheckpoints', 'Checkpoints', client, jobId, jobName,
+            panel => new CheckpointsPanel(panel, client, jobId, jobName));
+    }
+
+    protected async handleMessage(message: any): Promise<void> {
+        if (message.command === 'select') {
+            this.selectedCheckpointId = message.id;
+            await this.refresh();
+        }
+    }
+
+    protected async render(): Promise<string> {
+        const [checkpoints, config] = await Promise.all([
+            this.client.getJobCheckpoints(this.jobId),
+            this.client.getCheckpointConfig(this.jobId)
+        ]);
+        if (!checkpoints) {
+            return this.getMessageHtml('Checkpoint statistics are not available. The JobManager may be offline or the job no longer known.', true);
+        }
+
+        const operators = this.selectedCheckpointId !== undefined
+            ? await this.getOperatorStats(checkpoints, this.selectedCheckpointId)
+            : undefined;
+        return this.getHtml(checkpoints, config, operators);
+    }
+
+    private async getOperatorStats(checkpoints: any, checkpointId: number): Promise<OperatorCheckpointStats[] | undefined> {
+        const cached = this.operatorCache.get(checkpointId);
+        if (cached) { return cached; }
+
+        const details = await this.client.getCheckpointDetails(this.jobId, checkpointId);
+        if (!details) { return undefined; }
+
+        const operators = await Promise.all(Object.entries<any>(details.tasks || {}).map(async ([vertexId, task]) => {
+            const subtasks = await this.client.getCheckpointSubtaskDetails(this.jobId, checkpointId, vertexId);
+            return {
+                vertexId,
+                name: this.vertexNames.get(vertexId) || vertexId,
+                task,
+                summary: subtasks?.summary || null
+            };
+        }));
+
+        const entry = (checkpoints.history || []).find((c: any) => c.id === checkpointId);
+        if (details.status !== 'IN_PROGRESS' && entry?.status !== 'IN_PROGRESS') {
+            this.operatorCache.set(checkpointId, operators);
+        }
+        return operators;
+    }
+
+    private getHtml(checkpoints: any, config: any, operators: OperatorCheckpointStats[] | undefined): string {
+        const esc = WebviewHelper.escapeHtml;
+        const bytes = WebviewHelper.formatBytes;
+        const duration = WebviewHelper.formatDuration;
+        const time = WebviewHelper.formatTimestamp;
+
+        const counts = checkpoints.counts || {};
+        const latest = checkpoints.latest || {};
+        const history: any[] = checkpoints.history || [];
+        const summary = checkpoints.summary || {};
+
+        // Flink < 1.15 only reports the full state size
+        const checkpointedSize = (c: any) => c?.checkpointed_size ?? c?.state_size;
+        const kind = (c: any) => c?.is_savepoint ? 'Savepoint' : (c?.checkpoint_type === 'UNALIGNED_CHECKPOINT' ? 'Unaligned' : 'Checkpoint');
+        const statusClass = (status: string) => `status-${String(status || '').toLowerCase().replace('_', '-')}`;
+
+        const card = (label: string, value: string | number, cls: string = '') => `
+            <div class="card">
+                <div class="card-label">${label}</div>
+                <div class="card-value ${cls}">${value ?? '-'}</div>
+            </div>`;
+
+        const copyButton = (text: string | undefined) => text
+            ? `<button class="link" onclick="copyText(${esc(JSON.stringify(text))})" title="Copy path">${esc(text)}</button>`
+            : '-';
+
+        const latestRow = (label: string, c: any, extra: string) => c ? `
+            <tr>
+                <td>${label}</td>
+                <td>#${c.id}</td>
+                <td>${extra}</td>
+            </tr>` : `
+            <tr><td>${label}</td><td colspan="2" class="muted">None</td></tr>`;
+
+        const latestCompleted = latest.completed;
+        const latestRows = [
+            latestRow('Completed', latestCompleted, latestCompleted
+                ? `${time(latestCompleted.latest_ack_timestamp)} · ${duration(latestCompleted.end_to_end_duration)} · ${bytes(checkpointedSize(latestCompleted))}<br>${copyButton(latestCompleted.external_path)}`
+                : ''),
+            latestRow('Savepoint', latest.savepoint, latest.savepoint
+                ? `${time(latest.savepoint.latest_ack_timestamp)} · ${bytes(checkpointedSize(latest.savepoint))}<br>${copyButton(latest.savepoint.external_path)}`
+                : ''),
+            latestRow('Failed', latest.failed, latest.failed
+                ? `${time(latest.failed.failure_timestamp)}<br><span class="status-failed">${esc(latest.failed.failure_message || 'Unknown cause')}</span>`
+                : ''),
+            latestRow('Restored', latest.restored, latest.restored
+                ? `${time(latest.restored.restore_timestamp)} · ${latest.restored.is_savepoint ? 'Savepoint' : 'Checkpoint'}<br>${copyButton(latest.restored.external_path)}`
+                : '')
+        ].join('');
+
+        const summaryRow = (label: string, stats: any, format: (v: number) => string) => stats ? `
+            <tr><td>${label}</td><td>${format(stats.min)}</td><td>${format(stats.avg)}</td><td>${format(stats.max)}</td></tr>` : '';
+        const summaryRows = [
+            summaryRow('End to End Duration', summary.end_to_end_duration, duration),
+            summaryRow('Checkpointed Data Size', summary.checkpointed_size || summary.state_size, bytes),
+            summaryRow('Full Checkpoint Data Size', summary.checkpointed_size ? summary.state_size : undefined, bytes),
+            summaryRow('Processed In-Flight Data', summary.processed_data, bytes),
+            summaryRow('Persisted In-Flight Data', summary.persisted_data, bytes)
+        ].join('');
+
+        const historyRows = history.map(c => `
+            <tr class="clickable ${c.id === this.selectedCheckpointId ? 'selected' : ''}" onclick="select(${Number(c.id)})">
+                <td>#${c.id}</td>
+                <td class="${statusClass(c.status)}">${esc(c.status)}</td>
+                <td>${kind(c)}</td>
+                <td>${time(c.trigger_timestamp)}</td>
+                <td>${c.num_acknowledged_subtasks ?? '-'} / ${c.num_subtasks ?? '-'}</td>
+                <td>${duration(c.end_to_end_duration)}</td>
+                <td>${bytes(checkpointedSize(c))}</td>
+                <td>${bytes(c.state_size)}</td>
+                <td>${bytes(c.processed_data)}</td>
+                <td>${bytes(c.persisted_data)}</td>
+            </tr>`).join('');
+
+        const configEntries: [string, any][] = config ? [
+            ['Mode', config.mode === 'at_least_once' ? 'At Least Once' : 'Exactly Once'],
+            ['Interval', duration(config.interval)],
+            ['Timeout', duration(config.timeout)],
+            ['Minimum Pause', duration(config.min_pause)],
+            ['Max Concurrent', config.max_concurrent],
+            ['Unaligned', config.unaligned_checkpoints ? 'Enabled' : 'Disabled'],
+            ['Tolerable Failures', config.tolerable_failed_checkpoints],
+            ['Retention', config.externalization?.enabled
+                ? (config.externalization.delete_on_cancellation ? 'Delete on cancellation' : 'Retain on cancellation')
+                : 'Not retained'],
+            ['State Backend', config.state_backend],
+            ['Checkpoint Storage', config.checkpoint_storage]
+        ] : [];
+        const configRows = configEntries
+            .filter(([, v]) => v !== undefined && v !== null)
+            .map(([k, v]) => `<div class="kv"><span class="k">${k}</span><span class="v">${esc(v)}</span></div>`)
+            .join('');
+
+        const maxOf = (stats: any) => stats?.max;
+        let drillDown = '';
+        if (this.selectedCheckpointId !== undefined) {
+            const operatorRows = (operators || []).map(op => `
+                <tr>
+                    <td title="${esc(op.vertexId)}">${esc(op.name)}</td>
+                    <td class="${statusClass(op.task.status)}">${esc(op.task.status)}</td>
+                    <td>${op.task.num_acknowledged_subtasks ?? '-'} / ${op.task.num_subtasks ?? '-'}</td>
+                    <td>${duration(op.task.end_to_end_duration)}</td>
+                    <td>${bytes(checkpointedSize(op.task))}</td>
+                    <td>${duration(maxOf(op.summary?.checkpoint_duration?.sync))}</td>
+                    <td>${duration(maxOf(op.summary?.checkpoint_duration?.async))}</td>
+                    <td>${duration(maxOf(op.summary?.alignment?.duration))}</td>
+                    <td>${duration(maxOf(op.summary?.start_delay))}</td>
+                    <td>${bytes(op.task.processed_data ?? maxOf(op.summary?.alignment?.processed))}</td>
+                </tr>`).join('');
+            const maxAlignment = Math.max(-1, ...(operators || []).map(op => maxOf(op.summary?.alignment?.duration) ?? -1));
+
+            drillDown = `
+    <div class="section-title">Checkpoint #${this.selectedCheckpointId} by Operator
+        <span class="muted">· max alignment ${duration(maxAlignment)}</span>
+        <button class="link" onclick="select(null)">Close</button>
+    </div>
+    ${operators === undefined
+        ? '<div class="muted">Details of this checkpoint are no longer available on the JobManager.</div>'
+        : `<table>
+        <thead><tr>
+            <th>Operator</th><th>Status</th><th>Acknowledged</th><th>End to End</th><th>Checkpointed Size</th>
+            <th title="Max over subtasks">Sync</th><th title="Max over subtasks">Async</th>
+            <th title="Max over subtasks">Alignment</th><th title="Max over subtasks">Start Delay</th><th>Processed In-Flight</th>
+        </tr></thead>
+        <tbody>${operatorRows || '<tr><td colspan="10" class="muted">No operators reported</td></tr>'}</tbody>
+    </table>`}`;
+        }
+
+        const body = `
+    <div class="grid">
+        ${card('Triggered', counts.total)}
+        ${card('In Progress', counts.in_progress, 'status-in-progress')}
+        ${card('Completed', counts.completed, 'status-completed')}
+        ${card('Failed', counts.failed, counts.failed ? 'status-failed' : '')}
+        ${card('Restored', counts.restored)}
+    </div>
+
+    <div class="columns">
+        <div>
+            <div class="section-title">Latest</div>
+            <table><tbody>${latestRows}</tbody></table>
+        </div>
+        <div>
+            <div class="section-title">Configuration</div>
+            ${configRows || '<div class="muted">Not available</div>'}
+        </div>
+    </div>
+
+    <div class="section-title">Summary</div>
+    <table>
+        <thead><tr><th></th><th>Minimum</th><th>Average</th><th>Maximum</th></tr></thead>
+        <tbody>${summaryRows || '<tr><td colspan="4" class="muted">No completed checkpoints yet</td></tr>'}</tbody>
+    </table>
+
+    <div class="section-title">History <span class="muted">· select a checkpoint for per-operator details</span></div>
+    <table>
+        <thead><tr>
+            <th>ID</th><th>Status</th><th>Type</th><th>Triggered</th><th>Acknowledged</th><th>End to End</th>
+            <th>Checkpointed Size</th><th>Full Size</th><th>Processed In-Flight</th><th>Persisted In-Flight</th>
+        </tr></thead>
+        <tbody>${historyRows || '<tr><td colspan="10" class="muted">No checkpoints triggered yet</td></tr>'}</tbody>
+    </table>
+    ${drillDown}`;
+
+        const styles = `
+        .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin-bottom: 15px; }
+        tr.clickable { cursor: pointer; }
+        tr.clickable:hover { background: var(--vscode-list-hoverBackground); }
+        tr.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }`;
+
+        const script = `
+        function select(id) { post({ command: 'select', id: id === null ? undefined : id }); }`;
+
+        return this.getPageHtml(body, styles, script);
+    }
+}
@@ -3,6 +3,9 @@ import { FlinkGatewayClient } from './flinkClient';
 import { SessionManager } from './sessionManager';
 import { Logger } from './utils/logger';
 
+// Pause in typing before the gateway is asked for completions
+const SERVER_COMPLETION_DEBOUNCE_MS = 200;
+
 export class FlinkSqlCompletionItemProvider implements vscode.CompletionItemProvider {
 
     private client: FlinkGatewayClient;
@@ -80,8 +83,14 @@ export class FlinkSqlCompletionItemProvider implements vscode.CompletionItemProv
 
         const allItems: vscode.CompletionItem[] = [];
 
-        // 1. Keyword Completion (always available, but lower priority if inside dot notation)
-        if (!linePrefix.trim().endsWith('.')) {
+        // 1. Planner-aware candidates from the gateway (replace the static keyword lists when available)
+        const serverCandidates = await this.getServerCandidates(fullText, offset, token);
+        if (token.isCancellationRequested) { return []; }
+
+        if (serverCandidates) {
+            this.addServerItems(allItems, serverCandidates);
+        } else if (!linePrefix.trim().endsWith('.')) {
+            // Local fallback for older gateways: keywords (lower priority if inside dot notation)
             this.addItems(allItems, this.ddlKeywords, vscode.CompletionItemKind.Keyword);
             this.addItems(allItems, this.dmlKeywords, vscode.CompletionItemKind.Keyword);
             this.addItems(allItems, this.sqlKeywords, vscode.CompletionItemKind.Keyword);
@@ -95,7 +104,64 @@ export class FlinkSqlCompletionItemProvider implements vscode.CompletionItemProv
             Logger.warn('Metadata completion failed:', e);
         }
 
-        return allItems;
+        return this.dedupe(allItems);
+    }
+
+    /**
+     * Asks the gateway (complete-statement) for candidates at the cursor, scoped to the
+     * statement the cursor is in. Resolves to null on gateways without completion support.
+     * Waits for typing to pause first; triggers superseded by the next keystroke are cancelled.
+     */
+    private async getServerCandidates(text: string, offset: number, token: vscode.CancellationToken): Promise<string[] | null> {
+        const sessionHandle = this.sessionManager.getCurrentSessionHandle();
+        if (!sessionHandle) { return null; }
+
+        const start = text.lastIndexOf(';', offset - 1) + 1;
+        const endIndex = text.indexOf(';', offset);
+        const statement = text.substring(start, endIndex === -1 ? text.length : endIndex);
+
+        try {
+            // Older gateways get the local fallback without waiting for the debounce
+            if (!await this.client.supportsCompletion()) { return null; }
+
+            await new Promise(resolve => setTimeout(resolve, SERVER_COMPLETION_DEBOUNCE_MS));
+            if (token.isCancellationRequested) { return null; }
+
+            return await this.client.completeStatement(sessionHandle, statement, offset - start, token);
+        } catch (e) {
+            if (!token.isCancellationRequested) {
+                Logger.warn('Server-side completion failed, using local completion:', e);
+            }
+            return null;
+        }
+    }
+
+    private addServerItems(bucket: vscode.CompletionItem[], candidates: string[]) {
+        const keywords = new Set([...this.ddlKeywords, ...this.dmlKeywords, ...this.sqlKeywords]);
+        const functions = new Set(this.functions);
+
+        for (const candidate of candidates) {
+            const upper = candidate.toUpperCase();
+            const kind = functions.has(upper)
+                ? vscode.CompletionItemKind.Function
+                : keywords.has(upper) || /^[A-Z_ ]+$/.test(candidate)
+                    ? vscode.CompletionItemKind.Keyword
+                    : vscode.CompletionItemKind.Reference;
+            const item = new vscode.CompletionItem(candidate, kind);
+            item.detail = 'Flink planner';
+            bucket.push(item);
+        }
+    }
+
+    // Server candidates and metadata suggestions overlap (e.g. table names), keep the first
+    private dedupe(items: vscode.CompletionItem[]): vscode.CompletionItem[] {
+        const seen = new Set<string>();
+        return items.filter(item => {
+            const label = typeof item.label === 'string' ? item.label : item.label.label;
+            if (seen.has(label)) { return false; }
+            seen.add(label);
+            return true;
+        });
     }
 
     private addItems(bucket: vscode.CompletionItem[], labels: string[], kind: vscode.CompletionItemKind) {
@@ -249,8 +315,8 @@ export class FlinkSqlCompletionItemProvider implements vscode.CompletionItemProv
             return this.metadataCache.get(key)!;
         }
         try {
-            // Uses current session context (catalog/db already set)
-            const result = await this.client.listTables(sessionHandle);
+            const result = await this.client.listTablesInDatabase(sessionHandle, catalog, db,
+                expired => this.sessionManager.getMetadataSession(sessionHandle, expired));
             this.metadataCache.set(key, result);
             return result;
         } catch (e) {
@@ -30,22 +30,11 @@ export class FlinkConnectionsProvider implements vscode.TreeDataProvider<Connect
         const connections = this.connectionManager.getAllConnections();
 
         for (const conn of connections) {
-            let gatewayOk = false;
-            let jobManagerOk = false;
-
-            try {
-                const response = await fetch(`${conn.gatewayUrl}/info`, { method: 'GET' });
-                gatewayOk = response.ok;
-            } catch {
-                gatewayOk = false;
-            }
-
-            try {
-                const response = await fetch(`${conn.jobManagerUrl}/overview`, { method: 'GET' });
-                jobManagerOk = response.ok;
-            } catch {
-                jobManagerOk = false;
-            }
+            const client = this.connectionManager.createClient(conn);
+            const [gatewayOk, jobManagerOk] = await Promise.all([
+                client.isGatewayReachable(),
+                client.isJobManagerReachable()
+            ]);
 
             this.connectionStatus.set(conn.id, { gateway: gatewayOk, jobManager: jobManagerOk });
         }
@@ -53,6 +42,15 @@ export class FlinkConnectionsProvider implements vscode.TreeDataProvider<Connect
         this._onDidChangeTreeData.fire();
     }
 
+    private getAuthLabel(conn: FlinkConnection): string {
+        switch (this.connectionManager.getAuth(conn.id)?.type) {
+            case 'basic': return 'Basic';
+            case 'bearer': return 'Bearer Token';
+            case 'mtls': return 'Client Certificate (mTLS)';
+            default: return 'None';
+        }
+    }
+
     getTreeItem(element: ConnectionTreeItem): vscode.TreeItem {
         return element;
     }
@@ -123,7 +121,8 @@ export class FlinkConnectionsProvider implements vscode.TreeDataProvider<Connect
                 conn,
                 'connection',
                 allConnected ? 'online' : 'offline',
-                icon
+                icon,
+                this.getAuthLabel(conn)
             );
         });
     }
@@ -136,7 +135,8 @@ export class ConnectionTreeItem extends vscode.TreeItem {
         public readonly connection: FlinkConnection | undefined,
         public readonly itemType: 'connection' | 'detail' | 'empty',
         description?: string,
-        icon?: vscode.ThemeIcon
+        icon?: vscode.ThemeIcon,
+        authLabel?: string
     ) {
         super(label, collapsibleState);
 
@@ -151,7 +151,14 @@ export class ConnectionTreeItem extends vscode.TreeItem {
         this.contextValue = itemType;
 
         if (itemType === 'connection' && connection) {
-            this.tooltip = `${connection.name}\nGateway: ${connection.gatewayUrl}\nJobManager: ${connection.jobManagerUrl}`;
+            this.tooltip = `${connection.name}\nGateway: ${connection.gatewayUrl}\nJobManager: ${connection.jobManagerUrl}\nAuth: ${authLabel || 'None'}`;
+            if (connection.proxyUrl) {
+                // Host only, the URL may carry proxy credentials
+                this.tooltip += `\nProxy: ${new URL(connection.proxyUrl).host}`;
+            }
+            if (connection.headers && Object.keys(connection.headers).length > 0) {
+                this.tooltip += `\nHeaders: ${Object.keys(connection.headers).join(', ')}`;
+            }
         } else if (itemType === 'empty') {
             this.command = {
                 command: 'flinkConnections.add',
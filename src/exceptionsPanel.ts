@@ -0,0 +1,124 @@
+import { FlinkGatewayClient } from './flinkClient';
+import { JobPanel } from './jobPanel';
+import { WebviewHelper } from './utils/webviewHelper';
+
+// One failure in the exception history, normalized across Flink versions
+interface ExceptionEntry {
+    name: string;
+    stacktrace: string;
+    timestamp?: number;
+    taskName?: string;
+    location?: string;
+    taskManagerId?: string;
+    labels?: Record<string, string>;
+    concurrent: ExceptionEntry[];
+}
+
+function toEntry(raw: any): ExceptionEntry {
+    const stacktrace: string = raw.stacktrace || raw.exception || '';
+    return {
+        name: raw.exceptionName || stacktrace.split('\n')[0] || 'Unknown exception',
+        stacktrace,
+        timestamp: raw.timestamp,
+        taskName: raw.taskName || raw.task,
+        // 'endpoint' replaced 'location' in Flink 1.17
+        location: raw.endpoint || raw.location,
+        taskManagerId: raw.taskManagerId,
+        labels: raw.failureLabels,
+        concurrent: (raw.concurrentExceptions || []).map(toEntry)
+    };
+}
+
+/**
+ * Root exception and exception history of a job, with task/TaskManager locations
+ * and collapsible stack traces.
+ */
+export class ExceptionsPanel extends JobPanel {
+    static show(client: FlinkGatewayClient, jobId: string, jobName?: string) {
+        JobPanel.open('flinkExceptions', 'Exceptions', client, jobId, jobName,
+            panel => new ExceptionsPanel(panel, client, jobId, jobName));
+    }
+
+    protected async render(): Promise<string> {
+        const exceptions = await this.client.getJobExceptions(this.jobId);
+        if (!exceptions) {
+            return this.getMessageHtml('Exceptions are not available. The JobManager may be offline or the job no longer known.', true);
+        }
+
+        // Flink < 1.13 has no history, only the root exception and the task failures since
+        let history: ExceptionEntry[] = (exceptions.exceptionHistory?.entries || []).map(toEntry);
+        if (history.length === 0 && exceptions['root-exception']) {
+            history = [{
+                name: exceptions['root-exception'].split('\n')[0],
+                stacktrace: exceptions['root-exception'],
+                timestamp: exceptions.timestamp,
+                concurrent: (exceptions['all-exceptions'] || []).map(toEntry)
+            }];
+        }
+        const truncated = exceptions.exceptionHistory?.truncated || exceptions.truncated;
+
+        return this.getHtml(history, truncated);
+    }
+
+    private getHtml(history: ExceptionEntry[], truncated: boolean): string {
+        const esc = WebviewHelper.escapeHtml;
+        const time = WebviewHelper.formatTimestamp;
+
+        const location = (e: ExceptionEntry) => [
+            e.taskName ? `<span title="Task">${esc(e.taskName)}</span>` : '',
+            e.location ? `<span class="muted" title="Location">${esc(e.location)}</span>` : '',
+            e.taskManagerId ? `<button class="link muted" onclick="copyText(${esc(JSON.stringify(e.taskManagerId))})" title="Copy TaskManager ID">TM ${esc(e.taskManagerId)}</button>` : ''
+        ].filter(Boolean).join(' · ');
+
+        const labels = (e: ExceptionEntry) => Object.entries(e.labels || {})
+            .map(([k, v]) => `<span class="label">${esc(k)}: ${esc(v)}</span>`)
+            .join('');
+
+        // Keys identify the <details> so their open state survives re-rendering
+        const stack = (e: ExceptionEntry, key: string) => `
+            <details data-key="${esc(key)}">
+                <summary>Stack trace</summary>
+                <pre>${esc(e.stacktrace)}</pre>
+            </details>`;
+
+        const entry = (e: ExceptionEntry, key: string, root: boolean = false): string => `
+            <div class="exception ${root ? 'root' : ''}">
+                <div class="exception-header">
+                    <span class="exception-name">${esc(e.name)}</span>
+                    <span class="muted">${time(e.timestamp)}</span>
+                </div>
+                <div class="exception-location">${location(e) || '<span class="muted">No task location (job-level failure)</span>'}</div>
+                ${labels(e) ? `<div>${labels(e)}</div>` : ''}
+                ${stack(e, key)}
+                ${e.concurrent.length > 0 ? `
+                <details data-key="${esc(key)}-concurrent">
+                    <summary>${e.concurrent.length} concurrent exception(s)</summary>
+                    ${e.concurrent.map((c, i) => entry(c, `${key}-${i}`)).join('')}
+                </details>` : ''}
+            </div>`;
+
+        const [rootCause, ...older] = history;
+        const body = rootCause ? `
+    <div class="section-title">Root Exception</div>
+    ${entry(rootCause, `${rootCause.timestamp}`, true)}
+
+    <div class="section-title">Exception History <span class="muted">· ${history.length} failure(s)${truncated ? ', older entries truncated' : ''}</span></div>
+    ${older.length > 0
+        ? older.map(e => entry(e, `${e.timestamp}-${e.name}`)).join('')
+        : '<div class="muted">No earlier failures</div>'}` : `
+    <div class="muted">The job has not failed or restarted.</div>`;
+
+        const styles = `
+        .exception { border: 1px solid var(--border); border-radius: 4px; padding: 8px; margin-bottom: 8px; }
+        .exception.root { border-color: var(--vscode-errorForeground); }
+        .exception .exception { margin: 8px 0 0 0; }
+        .exception-header { display: flex; justify-content: space-between; gap: 10px; margin-bottom: 4px; }
+        .exception-name { font-weight: bold; color: var(--vscode-errorForeground); word-break: break-word; }
+        .exception-location { font-size: 0.9em; margin-bottom: 4px; }
+        .label { display: inline-block; font-size: 0.8em; border: 1px solid var(--border); border-radius: 3px; padding: 0 4px; margin-right: 4px; }
+        summary { cursor: pointer; color: var(--accent); font-size: 0.9em; }
+        pre { font-family: var(--vscode-editor-font-family); font-size: 0.85em; white-space: pre-wrap; word-break: break-all; background: var(--vscode-textCodeBlock-background); padding: 8px; margin: 4px 0 0; }`;
+
+        return this.getPageHtml(body, styles);
+    }
+}
@@ -1,7 +1,6 @@
 // The module 'vscode' contains the VS Code extensibility API
 import * as vscode from 'vscode';
 import { Logger } from './utils/logger';
-import { WebviewHelper } from './utils/webviewHelper';
 import { FlinkSqlNotebookSerializer } from './notebookSerializer';
 import { FlinkNotebookController } from './notebookController';
 import { FlinkJobsProvider } from './jobsProvider';
@@ -15,9 +14,19 @@ import { FlinkObjectDetailsProvider } from './objectDetailsProvider';
 import { FlinkConnectionsProvider, ConnectionTreeItem } from './connectionsProvider';
 import { FlinkSessionsProvider, SessionTreeItem } from './sessionsProvider';
 import { ConnectionManager } from './connectionManager';
+import { SavepointHistory, pickRestoreConfig } from './savepoints';
+import { CheckpointsPanel } from './checkpointsPanel';
+import { ExceptionsPanel } from './exceptionsPanel';
+import { JobGraphPanel } from './jobGraphPanel';
+import { WatermarksPanel } from './watermarksPanel';
+import { FlinkLogProvider, LOG_SCHEME } from './logViewer';
+import { ThreadDumpPanel } from './threadDumpPanel';
+import { FlinkJarsProvider, JarTreeItem } from './jarsProvider';
+import { JobConfigPanel } from './jobConfigPanel';
+import { JobStatementHistory } from './jobStatements';
 
 // This method is called when your extension is activated
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 
 	// Initialize Logger
 	Logger.initialize('Apache Flink');
@@ -33,6 +42,9 @@ export function activate(context: vscode.ExtensionContext) {
 		new FlinkSqlNotebookSerializer()
 	);
 
+	// Clients below need the saved credentials
+	await connectionManager.ready;
+
 	// Session Manager (sessions are linked to connections)
 	const sessionManager = new SessionManager(context, connectionManager);
 
@@ -46,7 +58,7 @@ export function activate(context: vscode.ExtensionContext) {
 		// Fallback to first connection
 		const conn = connectionManager.getFirstConnection();
 		if (conn) {
-			return new FlinkGatewayClient(conn.gatewayUrl, conn.jobManagerUrl);
+			return connectionManager.createClient(conn);
 		}
 		return new FlinkGatewayClient('http://localhost:8083', 'http://localhost:8081');
 	};
@@ -109,24 +121,16 @@ export function activate(context: vscode.ExtensionContext) {
 		createControllersForSessions();
 	});
 
-	// Get URLs for providers (use first connection or defaults)
-	const getDefaultUrls = () => {
-		const conn = connectionManager.getFirstConnection();
-		return {
-			gatewayUrl: conn?.gatewayUrl || 'http://localhost:8083',
-			jobManagerUrl: conn?.jobManagerUrl || 'http://localhost:8081'
-		};
-	};
-
-	const { gatewayUrl, jobManagerUrl } = getDefaultUrls();
+	// Savepoints taken from the Running Jobs view, offered by "Run from Savepoint"
+	const savepointHistory = new SavepointHistory(context.globalState);
 
 	// Register Flink Jobs sidebar
-	const runningJobsProvider = new FlinkJobsProvider(gatewayUrl, jobManagerUrl, 'RUNNING');
+	const runningJobsProvider = new FlinkJobsProvider(getActiveClient(), 'RUNNING', savepointHistory);
 	const runningJobsTreeView = vscode.window.createTreeView('flinkRunningJobs', {
 		treeDataProvider: runningJobsProvider
 	});
 
-	const historyJobsProvider = new FlinkJobsProvider(gatewayUrl, jobManagerUrl, 'HISTORY');
+	const historyJobsProvider = new FlinkJobsProvider(getActiveClient(), 'HISTORY');
 	const historyJobsTreeView = vscode.window.createTreeView('flinkJobHistory', {
 		treeDataProvider: historyJobsProvider
 	});
@@ -139,30 +143,56 @@ export function activate(context: vscode.ExtensionContext) {
 		historyJobsProvider.refresh();
 	});
 
+	// Jars uploaded to the JobManager of every connection
+	const jarsProvider = new FlinkJarsProvider(connectionManager, sessionManager);
+	const jarsTreeView = vscode.window.createTreeView('flinkJars', {
+		treeDataProvider: jarsProvider
+	});
+	// Jobs submitted from a jar show up in the jobs views without waiting for the next poll
+	jarsProvider.onDidRunJar(() => {
+		runningJobsProvider.refresh();
+		historyJobsProvider.refresh();
+	});
+
+	const refreshJarsCommand = vscode.commands.registerCommand('flinkJars.refresh', () => jarsProvider.refresh());
+	const uploadJarCommand = vscode.commands.registerCommand('flinkJars.upload', (item?: JarTreeItem) => jarsProvider.uploadJar(item));
+	const runJarCommand = vscode.commands.registerCommand('flinkJars.run', (item: JarTreeItem) => jarsProvider.runJar(item));
+	const showJarPlanCommand = vscode.commands.registerCommand('flinkJars.showPlan', (item: JarTreeItem) => jarsProvider.showPlan(item));
+	const deleteJarCommand = vscode.commands.registerCommand('flinkJars.delete', (item: JarTreeItem) => jarsProvider.deleteJar(item));
+
 	// Register TaskManagers sidebar
-	const tmsProvider = new FlinkTaskManagersProvider(gatewayUrl, jobManagerUrl, sessionManager);
+	const tmsProvider = new FlinkTaskManagersProvider(getActiveClient(), sessionManager);
 	vscode.window.registerWebviewViewProvider('flinkTaskManagers', tmsProvider);
 
+	// Read-only JobManager/TaskManager log documents
+	const logProvider = new FlinkLogProvider(getActiveClient());
+	context.subscriptions.push(
+		logProvider,
+		vscode.workspace.registerTextDocumentContentProvider(LOG_SCHEME, logProvider)
+	);
+
 	// Register Explorer sidebar
-	const catalogProvider = new FlinkCatalogProvider(context, gatewayUrl, jobManagerUrl, sessionManager);
+	const catalogProvider = new FlinkCatalogProvider(context, getActiveClient(), sessionManager);
 	vscode.window.registerTreeDataProvider('flinkExplorer', catalogProvider);
 
 	const objectDetailsProvider = new FlinkObjectDetailsProvider(getActiveClient(), sessionManager);
 	vscode.window.registerWebviewViewProvider('flinkObjectDetails', objectDetailsProvider);
 
 	// Update providers when active session changes (different connection)
-	sessionManager.onDidChangeActiveSession((handle) => {
-		const conn = sessionManager.getConnectionForSession(handle);
-		if (conn) {
-			const client = new FlinkGatewayClient(conn.gatewayUrl, conn.jobManagerUrl);
-			runningJobsProvider.updateConnection(conn.gatewayUrl, conn.jobManagerUrl);
-			historyJobsProvider.updateConnection(conn.gatewayUrl, conn.jobManagerUrl);
-			tmsProvider.updateConnection(conn.gatewayUrl, conn.jobManagerUrl);
-			catalogProvider.updateConnection(conn.gatewayUrl, conn.jobManagerUrl);
-			objectDetailsProvider.updateClient(client);
-			sqlCompletionProvider.updateClient(client);
-		}
-	});
+	// or when the connection itself (URLs, credentials) is edited
+	const updateProviderClients = () => {
+		const client = getActiveClient();
+		runningJobsProvider.updateClient(client);
+		historyJobsProvider.updateClient(client);
+		tmsProvider.updateClient(client);
+		logProvider.updateClient(client);
+		catalogProvider.updateClient(client);
+		objectDetailsProvider.updateClient(client);
+		sqlCompletionProvider.updateClient(client);
+		statusBar.updateClient(client);
+	};
+	sessionManager.onDidChangeActiveSession(() => updateProviderClients());
+	connectionManager.onDidChangeConnections(() => updateProviderClients());
 
 	// Register Connections sidebar
 	const connectionsProvider = new FlinkConnectionsProvider(connectionManager);
@@ -210,6 +240,63 @@ export function activate(context: vscode.ExtensionContext) {
 		runningJobsProvider.cancelJob(item);
 	});
 
+	// Savepoint commands
+	const triggerSavepointCommand = vscode.commands.registerCommand('flinkJobs.triggerSavepoint', (item: any) => {
+		runningJobsProvider.triggerSavepoint(item);
+	});
+	const stopWithSavepointCommand = vscode.commands.registerCommand('flinkJobs.stopWithSavepoint', (item: any) => {
+		runningJobsProvider.stopWithSavepoint(item);
+	});
+
+	// Parallelism bounds of a running job (adaptive scheduler)
+	const rescaleJobCommand = vscode.commands.registerCommand('flinkJobs.rescale', (item: any) => {
+		runningJobsProvider.rescaleJob(item);
+	});
+
+	// Checkpoint statistics of a running or finished job
+	const showCheckpointsCommand = vscode.commands.registerCommand('flinkJobs.showCheckpoints', (item: any) => {
+		if (!item?.jobData) { return; }
+		CheckpointsPanel.show(getActiveClient(), item.jobData.jobId, item.jobData.jobName);
+	});
+
+	// Root exception and exception history of a job
+	const showExceptionsCommand = vscode.commands.registerCommand('flinkJobs.showExceptions', (item: any) => {
+		if (!item?.jobData) { return; }
+		ExceptionsPanel.show(getActiveClient(), item.jobData.jobId, item.jobData.jobName);
+	});
+
+	// Low watermarks per vertex with lag and stall warnings
+	const showWatermarksCommand = vscode.commands.registerCommand('flinkJobs.showWatermarks', (item: any) => {
+		if (!item?.jobData) { return; }
+		WatermarksPanel.show(getActiveClient(), item.jobData.jobId, item.jobData.jobName);
+	});
+
+	// Options a job was submitted with, and its statement if it came from a notebook
+	const jobStatements = new JobStatementHistory(context.globalState);
+	const showConfigurationCommand = vscode.commands.registerCommand('flinkJobs.showConfiguration', (item: any) => {
+		if (!item?.jobData) { return; }
+		JobConfigPanel.show(getActiveClient(), item.jobData.jobId, item.jobData.jobName, jobStatements);
+	});
+
+	// Run a notebook cell restoring its job from a savepoint/checkpoint
+	const runFromSavepointCommand = vscode.commands.registerCommand('flink.runCellFromSavepoint', async (cell?: vscode.NotebookCell) => {
+		const editor = vscode.window.activeNotebookEditor;
+		cell = cell ?? (editor ? editor.notebook.cellAt(editor.selection.start) : undefined);
+		if (!cell) { return; }
+
+		const controller = [...controllers.values()].find(c => c.isSelectedFor(cell!.notebook));
+		const client = controller && sessionManager.getClientForSession(controller.getSession().handle);
+		if (!controller || !client) {
+			vscode.window.showWarningMessage('Select a Flink session as the notebook kernel first.');
+			return;
+		}
+
+		const executionConfig = await pickRestoreConfig(client, savepointHistory);
+		if (executionConfig) {
+			await controller.executeWithConfig([cell], executionConfig);
+		}
+	});
+
 	// Register Session commands
 	const createSessionCommand = vscode.commands.registerCommand('flink.createSession', () => {
 		sessionManager.createSession();
@@ -222,6 +309,67 @@ export function activate(context: vscode.ExtensionContext) {
 		tmsProvider.refresh();
 	});
 
+	// Log viewers; the flinkLogs.* commands act on the log shown in the editor
+	const showJobManagerLogsCommand = vscode.commands.registerCommand('flink.showJobManagerLogs', () => logProvider.pickAndOpen());
+	// Opens `file` ('log', 'stdout' or a log file name) directly when given, otherwise asks
+	const showTaskManagerLogsCommand = vscode.commands.registerCommand('flink.showTaskManagerLogs', async (taskManagerId?: string, file?: string) => {
+		if (!taskManagerId) {
+			const tms = await getActiveClient().getTaskManagers();
+			if (!tms || tms.length === 0) {
+				vscode.window.showWarningMessage(tms ? 'No TaskManagers connected.' : 'JobManager is not reachable.');
+				return;
+			}
+			taskManagerId = (await vscode.window.showQuickPick(
+				tms.map(tm => ({ label: tm.id, description: `${tm.freeSlots} / ${tm.slotsNumber} slots free`, id: tm.id as string })),
+				{ placeHolder: 'Select the TaskManager' }
+			))?.id;
+			if (!taskManagerId) { return; }
+		}
+		if (file) {
+			await logProvider.open(taskManagerId, file);
+		} else {
+			await logProvider.pickAndOpen(taskManagerId);
+		}
+	});
+	// Thread dump of a TaskManager, or of a process picked from the JobManager and TaskManagers
+	const showThreadDumpCommand = vscode.commands.registerCommand('flink.showThreadDump', async (taskManagerId?: string) => {
+		const client = getActiveClient();
+		if (!taskManagerId) {
+			const tms = await client.getTaskManagers();
+			if (tms === null) {
+				vscode.window.showWarningMessage('JobManager is not reachable.');
+				return;
+			}
+			const selected = await vscode.window.showQuickPick([
+				{ label: 'JobManager', id: undefined },
+				...tms.map(tm => ({ label: tm.id as string, description: 'TaskManager', id: tm.id as string }))
+			], { placeHolder: 'Select the process to take a thread dump of' });
+			if (!selected) { return; }
+			taskManagerId = selected.id;
+		}
+		ThreadDumpPanel.show(client, taskManagerId);
+	});
+	const logUri = (uri?: vscode.Uri) => {
+		const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+		return target?.scheme === LOG_SCHEME ? target : undefined;
+	};
+	const followLogCommand = vscode.commands.registerCommand('flinkLogs.follow', (uri?: vscode.Uri) => {
+		const target = logUri(uri);
+		if (target) { logProvider.setFollowing(target, true); }
+	});
+	const unfollowLogCommand = vscode.commands.registerCommand('flinkLogs.unfollow', (uri?: vscode.Uri) => {
+		const target = logUri(uri);
+		if (target) { logProvider.setFollowing(target, false); }
+	});
+	const filterLogLevelCommand = vscode.commands.registerCommand('flinkLogs.filterLevel', async (uri?: vscode.Uri) => {
+		const target = logUri(uri);
+		if (target) { await logProvider.pickLevel(target); }
+	});
+	const refreshLogCommand = vscode.commands.registerCommand('flinkLogs.refresh', (uri?: vscode.Uri) => {
+		const target = logUri(uri);
+		if (target) { logProvider.refresh(target); }
+	});
+
 	// Connection management commands
 	const refreshConnectionsCommand = vscode.commands.registerCommand('flinkConnections.refresh', () => {
 		connectionsProvider.refresh();
@@ -265,6 +413,14 @@ export function activate(context: vscode.ExtensionContext) {
 		}
 	});
 
+	const closeStaleSessionsCommand = vscode.commands.registerCommand('flinkSessions.closeStale', async () => {
+		await sessionManager.closeStaleSessions();
+	});
+
+	const manageProfilesCommand = vscode.commands.registerCommand('flinkSessions.manageProfiles', () => {
+		vscode.commands.executeCommand('workbench.action.openSettings', 'flink.sessionProfiles');
+	});
+
 	// Legacy configure command (for backwards compatibility)
 	const configureCommand = vscode.commands.registerCommand('flink.configureConnection', async () => {
 		// Open the add connection dialog
@@ -283,8 +439,30 @@ export function activate(context: vscode.ExtensionContext) {
 		sessionsTreeView,
 		refreshRunningCommand,
 		refreshHistoryCommand,
+		jarsProvider,
+		jarsTreeView,
+		refreshJarsCommand,
+		uploadJarCommand,
+		runJarCommand,
+		showJarPlanCommand,
+		deleteJarCommand,
 		cancelJobCommand,
+		triggerSavepointCommand,
+		stopWithSavepointCommand,
+		rescaleJobCommand,
+		runFromSavepointCommand,
+		showCheckpointsCommand,
+		showExceptionsCommand,
+		showWatermarksCommand,
+		showConfigurationCommand,
 		refreshTMCommand,
+		showJobManagerLogsCommand,
+		showTaskManagerLogsCommand,
+		showThreadDumpCommand,
+		followLogCommand,
+		unfollowLogCommand,
+		filterLogLevelCommand,
+		refreshLogCommand,
 		refreshConnectionsCommand,
 		addConnectionCommand,
 		editConnectionCommand,
@@ -293,6 +471,8 @@ export function activate(context: vscode.ExtensionContext) {
 		createSessionTreeCommand,
 		setActiveSessionCommand,
 		removeSessionCommand,
+		closeStaleSessionsCommand,
+		manageProfilesCommand,
 		refreshExplorerCommand,
 		selectDatabaseCommand,
 		selectCatalogCommand,
@@ -306,48 +486,11 @@ export function activate(context: vscode.ExtensionContext) {
 		completionDisposable
 	);
 
-	// Command: Show Job Detail
-	context.subscriptions.push(vscode.commands.registerCommand('flink.showJobDetail', async (jobId: string, status?: string) => {
+	// Command: Show Job Detail (job graph). Clicking a job passes its ID and name, the context menu the tree item
+	context.subscriptions.push(vscode.commands.registerCommand('flink.showJobDetail', (target: any, jobName?: string) => {
+		const jobId = typeof target === 'string' ? target : target?.jobData?.jobId;
 		if (!jobId) { return; }
-
-		let jobStatus = status;
-		const client = getActiveClient();
-		if (!jobStatus) {
-			try {
-				const details = await client.getJobDetails(jobId);
-				if (details) {
-					jobStatus = details.state;
-				}
-			} catch (e) {
-				Logger.warn(`Failed to fetch status for job ${jobId}: ${e}`);
-			}
-		}
-
-		const safeStatus = (jobStatus || 'running').toLowerCase();
-
-		// Get JobManager URL from active session's connection
-		const activeHandle = sessionManager.getCurrentSessionHandle();
-		let jmUrl = 'http://localhost:8081';
-		if (activeHandle) {
-			const conn = sessionManager.getConnectionForSession(activeHandle);
-			if (conn) { jmUrl = conn.jobManagerUrl; }
-		}
-
-		const cleanBaseUrl = jmUrl.replace(/\/$/, '');
-		const url = `${cleanBaseUrl}/#/job/${safeStatus}/${jobId}/overview`;
-
-		const panel = vscode.window.createWebviewPanel(
-			'flinkJobDetail',
-			`Job: ${jobId}`,
-			vscode.ViewColumn.One,
-			{
-				enableScripts: true,
-				retainContextWhenHidden: true,
-				localResourceRoots: []
-			}
-		);
-
-		panel.webview.html = WebviewHelper.getFrameHtml(url);
+		JobGraphPanel.show(getActiveClient(), jobId, jobName ?? target?.jobData?.jobName);
 	}));
 }
 
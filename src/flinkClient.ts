@@ -1,5 +1,11 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { File, FormData } from 'undici';
 import { Logger } from './utils/logger';
+import { FlinkHttpError, FlinkServerError, FlinkTransport, TransportOptions } from './transport';
+import { LogicalType } from './logicalType';
+import { ApiVersionsResponse, decodeFetchResults, fetchResultsPath, GatewayApiVersion, isApiVersionAtLeast, pickApiVersion } from './gatewayApi';
 
 export interface FlinkSession {
     sessionHandle: string;
@@ -11,14 +17,17 @@ export interface ExecuteResult {
 
 export interface ResultColumn {
     name: string;
-    logicalType: any;
+    logicalType: LogicalType;
     comment?: string;
 }
 
+// Lifecycle states of a gateway operation (GET .../operations/{h}/status)
+export type OperationStatus = 'INITIALIZED' | 'PENDING' | 'RUNNING' | 'FINISHED' | 'CANCELED' | 'CLOSED' | 'ERROR' | 'TIMEOUT';
+
 export interface ResultData {
     results: any[];
     columns: ResultColumn[];
-    resultKind: string;
+    resultKind?: string;
     resultType: string;
     jobID?: string;
     nextResultUri?: string;
@@ -26,175 +35,309 @@ export interface ResultData {
     nextResultToken?: number;
 }
 
+// Progress of an asynchronous savepoint (GET /jobs/{id}/savepoints/{triggerId})
+export interface SavepointStatus {
+    state: 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+    location?: string;
+    failureCause?: string;
+}
 
+// A metric aggregated over the subtasks of a vertex
+export interface AggregatedMetric {
+    min?: number;
+    max?: number;
+    avg?: number;
+    sum?: number;
+}
 
-// Custom Error class to carry Flink server-side stack traces
-export class FlinkServerError extends Error {
-    constructor(message: string, stack?: string, public statusCode?: number) {
-        super(message);
-        this.name = 'Flink Server Error';
-        if (stack) {
-            this.stack = stack;
-        }
+// Flame graph sampling mode: on-CPU, off-CPU or both (mixed)
+export type FlameGraphType = 'on_cpu' | 'off_cpu' | 'full';
+
+// Options of running a jar or previewing its plan (POST /jars/{id}/run and /jars/{id}/plan)
+export interface JarRunOptions {
+    // Defaults to the Main-Class of the jar's manifest
+    entryClass?: string;
+    programArgs?: string[];
+    // Defaults to parallelism.default of the cluster
+    parallelism?: number;
+    savepointPath?: string;
+    allowNonRestoredState?: boolean;
+}
+
+// Parallelism bounds per vertex ID, used by the adaptive scheduler (/jobs/{id}/resource-requirements)
+export type ResourceRequirements = Record<string, { parallelism: { lowerBound: number; upperBound: number } }>;
+
+// Uploads and runs take longer than other requests: the JobManager executes the jar's main method
+const JAR_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * True if the gateway reported that a session does not exist (expired or closed).
+ * The gateway answers unknown sessions with a SqlGatewayException, older versions or proxies with 404.
+ */
+export function isSessionNotFoundError(error: unknown): boolean {
+    if (!(error instanceof FlinkHttpError)) {
+        return false;
     }
+    return error.statusCode === 404 || /Session '?[^']*'? does not exist|session not found/i.test(`${error.message}\n${error.stack}`);
 }
 
 export class FlinkGatewayClient {
+    // Negotiated REST API version per gateway URL, shared by all client instances
+    private static apiVersions = new Map<string, Promise<GatewayApiVersion>>();
+    // Gateways that rejected complete-statement (e.g. disabled or proxied away)
+    private static completionUnsupported = new Set<string>();
+    // Tail of the statement sequence running per session handle (see withSessionLock)
+    private static sessionLocks = new Map<string, Promise<unknown>>();
+
     private baseUrl: string;
     private jobManagerUrl: string;
+    private transport: FlinkTransport;
 
-    constructor(baseUrl: string, jobManagerUrl: string = 'http://localhost:8081') {
+    constructor(baseUrl: string, jobManagerUrl: string = 'http://localhost:8081', options: TransportOptions = {}) {
         this.baseUrl = baseUrl.replace(/\/$/, ''); // Remove trailing slash
         this.jobManagerUrl = jobManagerUrl.replace(/\/$/, '');
+        this.transport = new FlinkTransport(options);
     }
 
-    private async request(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
-        const headers: any = {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-        };
-
-        try {
-            const response = await fetch(`${this.baseUrl}${endpoint}`, {
-                method,
-                headers,
-                body: body ? JSON.stringify(body) : undefined
-            });
-
-            if (!response.ok) {
-                const text = await response.text();
-                this.handleErrorResponse(response.status, text);
-            }
-
-            return await response.json();
-        } catch (error: any) {
-            if (error instanceof FlinkServerError) {
-                throw error;
-            }
-            throw new Error(`Failed to request Flink Gateway: ${error.message}`);
+    /**
+     * Negotiates the REST API version with the gateway on first use (GET /api_versions)
+     * and picks the highest version both sides support.
+     */
+    async getApiVersion(): Promise<GatewayApiVersion> {
+        let version = FlinkGatewayClient.apiVersions.get(this.baseUrl);
+        if (!version) {
+            version = this.negotiateApiVersion();
+            FlinkGatewayClient.apiVersions.set(this.baseUrl, version);
+            // Don't cache failures (e.g. gateway offline), retry on next request
+            version.catch(() => FlinkGatewayClient.apiVersions.delete(this.baseUrl));
         }
+        return version;
     }
 
-    private handleErrorResponse(status: number, text: string): void {
-        let message = `Flink Gateway Error (${status})`;
-        let stack: string | undefined = undefined;
+    private async negotiateApiVersion(): Promise<GatewayApiVersion> {
+        const response: ApiVersionsResponse = await this.requestPath('/api_versions', 'GET');
+        const version = pickApiVersion(response);
+        Logger.info(`[FlinkClient] Gateway ${this.baseUrl} offers ${response.versions.join(', ')}, using ${version}`);
+        return version;
+    }
 
-        try {
-            const data = JSON.parse(text);
-            if (data.errors && Array.isArray(data.errors)) {
-                // Primary error message
-                // data.errors[0] is usually "Internal server error." or similar short msg
-                if (data.errors.length > 0) {
-                    message = data.errors[0];
-                }
+    // Gateway request on the negotiated, versioned path (e.g. /v2/sessions)
+    private async request(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
+        const version = await this.getApiVersion();
+        return this.requestPath(`/${version}${endpoint}`, method, body);
+    }
 
-                // Detailed stack trace is usually in data.errors[1]
-                if (data.errors.length > 1) {
-                    let rawStack = data.errors[1];
-                    // Clean up Flink's wrapping format
-                    // e.g. <Exception on server side:\n ... >
-                    rawStack = rawStack.replace(/^<Exception on server side:\n?/, '').replace(/>$/, '');
-                    stack = rawStack;
-
-                    // Extract "Caused by" for the friendly message
-                    const lines = rawStack.split('\n');
-                    const causedByLines = lines.filter((l: string) => l.trim().startsWith('Caused by:'));
-
-                    if (causedByLines.length > 0) {
-                        // Use the most specific cause (last one) to give the user immediate insight
-                        const rootCause = causedByLines[causedByLines.length - 1].trim();
-                        // Append to message
-                        message += ` ${rootCause}`;
-                    }
-                }
-            } else {
-                // Valid JSON but not the expected error format
-                message += `: ${text}`;
-            }
-        } catch {
-            // Not JSON, just raw text (maybe 404 html or plain text)
-            // Limit length if too long?
-            if (text.length > 500) {
-                message += `: ${text.substring(0, 500)}...`;
-            } else {
-                message += `: ${text}`;
-            }
-        }
+    private async requestPath(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
+        return this.transport.json(`${this.baseUrl}${endpoint}`, method, body);
+    }
 
-        throw new FlinkServerError(message, stack, status);
+    // JobManager REST request. Throws classified transport errors.
+    private async jobManagerRequest(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
+        return this.transport.json(`${this.jobManagerUrl}${endpoint}`, method, body);
     }
 
-    async createSession(sessionName: string): Promise<FlinkSession> {
+    // Logs and thread dumps are served per TaskManager and for the JobManager under the same sub-paths
+    private processPath(taskManagerId: string | undefined): string {
+        return taskManagerId ? `/taskmanagers/${encodeURIComponent(taskManagerId)}` : '/jobmanager';
+    }
+
+    async createSession(sessionName: string, properties: Record<string, string> = {}): Promise<FlinkSession> {
         const result = await this.request('/sessions', 'POST', {
             sessionName,
-            properties: {}
+            properties
         });
         return { sessionHandle: result.sessionHandle };
     }
 
+    /**
+     * Returns the effective configuration of a session (session properties merged with cluster defaults).
+     */
+    async getSessionConfig(sessionHandle: string): Promise<Record<string, string>> {
+        const result = await this.request(`/sessions/${sessionHandle}`, 'GET');
+        return result.properties || {};
+    }
+
+    /**
+     * Keeps a session alive (resets sql-gateway.session.idle-timeout).
+     */
+    async heartbeat(sessionHandle: string): Promise<void> {
+        await this.request(`/sessions/${sessionHandle}/heartbeat`, 'POST');
+    }
+
+    /**
+     * Closes a session on the gateway, releasing its operations and catalogs.
+     */
+    async closeSession(sessionHandle: string): Promise<void> {
+        await this.request(`/sessions/${sessionHandle}`, 'DELETE');
+    }
+
+    /**
+     * True if the gateway knows the session, false if it reports that the session does not exist.
+     * Any other failure (gateway unreachable, timeout, 5xx, 401) is thrown: it says nothing about the session.
+     */
     async checkSession(sessionHandle: string): Promise<boolean> {
         try {
             await this.request(`/sessions/${sessionHandle}`, 'GET');
             return true;
-        } catch {
-            return false;
+        } catch (error) {
+            if (isSessionNotFoundError(error)) {
+                return false;
+            }
+            throw error;
         }
     }
 
-    async executeStatement(sessionHandle: string, statement: string): Promise<ExecuteResult> {
+    /**
+     * Submits a statement. `executionConfig` is merged into the session configuration
+     * for this statement only, e.g. to restore a job from a savepoint.
+     */
+    async executeStatement(sessionHandle: string, statement: string, executionConfig?: Record<string, string>): Promise<ExecuteResult> {
         const result = await this.request(`/sessions/${sessionHandle}/statements`, 'POST', {
             statement,
-            executionTimeout: 0 // Wait indefinitely (or meaningful default)
+            executionTimeout: 0, // Wait indefinitely (or meaningful default)
+            ...(executionConfig ? { executionConfig } : {})
         });
         return { statementHandle: result.operationHandle };
     }
 
-    // Polling is complex in Flink Gateway, usually we fetch results until 'EOS' or similar.
-    // For simplicity, we just fetch one page or the available results.
     async fetchResults(sessionHandle: string, statementHandle: string, token: number = 0): Promise<ResultData> {
-        const result = await this.request(`/sessions/${sessionHandle}/operations/${statementHandle}/result/${token}`, 'GET');
+        const version = await this.getApiVersion();
+        const result = await this.request(fetchResultsPath(version, sessionHandle, statementHandle, token), 'GET');
+        return decodeFetchResults(version, result);
+    }
 
-        // Debug: Log raw API response - reduced noise
-        // Logger.info('[Flink API Response]', JSON.stringify(result, null, 2));
+    // Whether complete-statement is available, from the cached API version without a request per call
+    async supportsCompletion(): Promise<boolean> {
+        const version = await this.getApiVersion();
+        return isApiVersionAtLeast(version, 'v2') && !FlinkGatewayClient.completionUnsupported.has(this.baseUrl);
+    }
 
-        // This mapping depends on the exact Flink Gateway API version response structure.
-        // Assuming standard structure:
-        return {
-            results: result.results ? result.results.data : [],
-            columns: result.results ? result.results.columns : [],
-            resultKind: result.resultKind,
-            resultType: result.resultType || (result.results?.data?.length > 0 ? 'PAYLOAD' : 'NOT_READY'),
-            jobID: result.jobID,
-            nextResultUri: result.nextResultUri,
-            isQueryResult: result.isQueryResult || false,
-            nextResultToken: result.nextResultToken
-        };
+    /**
+     * Planner-aware completion candidates for `statement` at `position` (character offset).
+     * Resolves to null if the gateway does not support completion (REST API v1 / Flink 1.16).
+     * The gateway serves complete-statement as a GET with a JSON body.
+     */
+    async completeStatement(sessionHandle: string, statement: string, position: number, token?: vscode.CancellationToken): Promise<string[] | null> {
+        if (!await this.supportsCompletion()) {
+            return null;
+        }
+        const version = await this.getApiVersion();
+
+        const controller = new AbortController();
+        const cancellation = token?.onCancellationRequested(() => controller.abort());
+        try {
+            const result = await this.transport.json(`${this.baseUrl}/${version}/sessions/${sessionHandle}/complete-statement`, 'GET', {
+                statement,
+                position
+            }, { signal: controller.signal });
+            return result.candidates || [];
+        } catch (error: any) {
+            if (error instanceof FlinkHttpError && (error.statusCode === 404 || error.statusCode === 405)) {
+                Logger.info(`[FlinkClient] Gateway ${this.baseUrl} does not support complete-statement`);
+                FlinkGatewayClient.completionUnsupported.add(this.baseUrl);
+                return null;
+            }
+            throw error;
+        } finally {
+            cancellation?.dispose();
+        }
+    }
+
+    async getOperationStatus(sessionHandle: string, statementHandle: string): Promise<OperationStatus> {
+        const result = await this.request(`/sessions/${sessionHandle}/operations/${statementHandle}/status`, 'GET');
+        return result.status;
+    }
+
+    // --- Connectivity probes ---
+
+    async isGatewayReachable(): Promise<boolean> {
+        try {
+            const response = await this.transport.send(`${this.baseUrl}/info`, { method: 'GET' });
+            return response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    async isJobManagerReachable(): Promise<boolean> {
+        try {
+            const response = await this.transport.send(`${this.jobManagerUrl}/overview`, { method: 'GET' });
+            return response.ok;
+        } catch {
+            return false;
+        }
     }
 
     async cancelJob(jobId: string): Promise<void> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/jobs/${jobId}?mode=cancel`, {
-                method: 'PATCH'
-            });
+            await this.jobManagerRequest(`/jobs/${jobId}?mode=cancel`, 'PATCH');
+            Logger.info('[Flink JobManager] Job cancelled:', jobId);
+        } catch (error: any) {
+            console.warn('[Flink JobManager] Failed to cancel job:', error.message);
+        }
+    }
 
-            if (response.ok) {
-                Logger.info('[Flink JobManager] Job cancelled:', jobId);
-            } else {
-                console.warn('[Flink JobManager] Failed to cancel job:', await response.text());
+    /**
+     * Triggers a savepoint (POST /jobs/{id}/savepoints) and returns the trigger ID to poll.
+     * Without a target directory the cluster's `state.savepoints.dir` is used.
+     */
+    async triggerSavepoint(jobId: string, targetDirectory?: string): Promise<string> {
+        const result = await this.jobManagerRequest(`/jobs/${jobId}/savepoints`, 'POST', {
+            'target-directory': targetDirectory || null,
+            'cancel-job': false
+        });
+        Logger.info(`[Flink JobManager] Savepoint triggered for job ${jobId}: ${result['request-id']}`);
+        return result['request-id'];
+    }
+
+    /**
+     * Stops the job after taking a savepoint (POST /jobs/{id}/stop) and returns the trigger ID to poll.
+     * With `drain`, sources emit MAX_WATERMARK first so event-time timers fire.
+     */
+    async stopWithSavepoint(jobId: string, targetDirectory?: string, drain: boolean = false): Promise<string> {
+        const result = await this.jobManagerRequest(`/jobs/${jobId}/stop`, 'POST', {
+            targetDirectory: targetDirectory || null,
+            drain
+        });
+        Logger.info(`[Flink JobManager] Stop with savepoint triggered for job ${jobId}: ${result['request-id']}`);
+        return result['request-id'];
+    }
+
+    async getSavepointStatus(jobId: string, triggerId: string): Promise<SavepointStatus> {
+        const result = await this.jobManagerRequest(`/jobs/${jobId}/savepoints/${triggerId}`);
+        if (result.status?.id !== 'COMPLETED') {
+            return { state: 'IN_PROGRESS' };
+        }
+        const failure = result.operation?.['failure-cause'];
+        if (failure) {
+            // First line of the stack trace is "<class>: <message>"
+            const cause = (failure['stack-trace'] || failure.class || 'Unknown error').split('\n')[0];
+            return { state: 'FAILED', failureCause: cause };
+        }
+        return { state: 'COMPLETED', location: result.operation?.location };
+    }
+
+    /**
+     * Polls a savepoint trigger until it completes and returns the savepoint path.
+     * Throws with the failure cause if the savepoint failed.
+     */
+    async waitForSavepoint(jobId: string, triggerId: string, token?: vscode.CancellationToken, pollIntervalMs: number = 1000): Promise<string> {
+        while (!token?.isCancellationRequested) {
+            const status = await this.getSavepointStatus(jobId, triggerId);
+            if (status.state === 'COMPLETED') {
+                return status.location || '';
             }
-        } catch (error: any) {
-            console.warn('[Flink JobManager] Error cancelling job:', error.message);
+            if (status.state === 'FAILED') {
+                throw new Error(`Savepoint failed: ${status.failureCause}`);
+            }
+            await new Promise(r => setTimeout(r, pollIntervalMs));
         }
+        throw new vscode.CancellationError();
     }
 
     async getTaskManagers(): Promise<any[] | null> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/taskmanagers`);
-            if (!response.ok) {
-                console.warn('[Flink JobManager] Failed to fetch taskmanagers:', response.statusText);
-                return null;
-            }
-            const data: any = await response.json();
+            const data = await this.jobManagerRequest('/taskmanagers');
             return data.taskmanagers || [];
         } catch (error: any) {
             // If fetch fails (e.g. connection refused), return null to indicate offline
@@ -205,12 +348,7 @@ export class FlinkGatewayClient {
 
     async getClusterOverview(): Promise<any | null> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/overview`);
-            if (!response.ok) {
-                console.warn('[Flink JobManager] Failed to fetch overview:', response.statusText);
-                return null;
-            }
-            return await response.json();
+            return await this.jobManagerRequest('/overview');
         } catch (error: any) {
             console.warn('[Flink JobManager] Error fetching overview:', error.message);
             return null;
@@ -219,53 +357,350 @@ export class FlinkGatewayClient {
 
     async getJobs(): Promise<any[] | null> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/jobs/overview`);
-            if (!response.ok) {
+            const data = await this.jobManagerRequest('/jobs/overview');
+            return data.jobs || [];
+        } catch (error: any) {
+            if (error instanceof FlinkHttpError) {
                 // Fallback to /jobs if overview is missing (older Flink?)
-                const response2 = await fetch(`${this.jobManagerUrl}/jobs`);
-                if (!response2.ok) {
-                    console.warn('[Flink JobManager] Failed to fetch jobs:', response.statusText);
+                try {
+                    const data2 = await this.jobManagerRequest('/jobs');
+                    return data2.jobs || [];
+                } catch (error2: any) {
+                    console.warn('[Flink JobManager] Failed to fetch jobs:', error2.message);
                     return null;
                 }
-                const data2: any = await response2.json();
-                return data2.jobs || [];
             }
-            const data: any = await response.json();
-            return data.jobs || [];
-        } catch (error: any) {
             console.warn('[Flink JobManager] Error fetching jobs:', error.message);
             return null;
         }
     }
 
+    /**
+     * Log files of a TaskManager, or of the JobManager when no ID is given
+     * ({ name, size } each, size in bytes).
+     */
+    async getLogFiles(taskManagerId?: string): Promise<{ name: string; size: number }[] | null> {
+        try {
+            const result = await this.jobManagerRequest(`${this.processPath(taskManagerId)}/logs`);
+            return result.logs || [];
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to list logs of ${taskManagerId || 'the JobManager'}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Content of a log of a TaskManager, or of the JobManager when no ID is given.
+     * `file` is 'log' (main log), 'stdout' or a file name from getLogFiles.
+     */
+    async getLog(taskManagerId: string | undefined, file: string): Promise<string> {
+        const path = file === 'log' || file === 'stdout' ? file : `logs/${encodeURIComponent(file)}`;
+        return this.transport.text(`${this.jobManagerUrl}${this.processPath(taskManagerId)}/${path}`);
+    }
+
+    /**
+     * Stack traces of all threads of a TaskManager, or of the JobManager when no ID is
+     * given ({ threadInfos: [{ threadName, stringifiedThreadInfo }] }).
+     */
+    async getThreadDump(taskManagerId?: string): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`${this.processPath(taskManagerId)}/thread-dump`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch thread dump of ${taskManagerId || 'the JobManager'}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Jars uploaded to the JobManager ({ id, name, uploaded, entry: [{ name, description }] })
+    async getJars(): Promise<any[] | null> {
+        try {
+            const result = await this.jobManagerRequest('/jars');
+            return result.files || [];
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to list jars: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Uploads a local jar to the JobManager (POST /jars/upload) and returns its jar ID,
+     * the name it is stored under (e.g. 5b2d..._pipeline.jar).
+     */
+    async uploadJar(filePath: string): Promise<string> {
+        const content = await fs.promises.readFile(filePath);
+        const form = new FormData();
+        form.append('jarfile', new File([content], path.basename(filePath), { type: 'application/x-java-archive' }));
+        const result = await this.transport.form(`${this.jobManagerUrl}/jars/upload`, form, { timeoutMs: JAR_REQUEST_TIMEOUT_MS });
+        // The full path of the stored jar on the JobManager
+        const jarId = String(result.filename).split('/').pop()!;
+        Logger.info(`[Flink JobManager] Uploaded ${filePath} as ${jarId}`);
+        return jarId;
+    }
+
+    // Runs the main method of an uploaded jar and returns the ID of the submitted job
+    async runJar(jarId: string, options: JarRunOptions = {}): Promise<string> {
+        const result = await this.transport.json(`${this.jobManagerUrl}/jars/${encodeURIComponent(jarId)}/run`, 'POST',
+            this.jarRequestBody(options), { timeoutMs: JAR_REQUEST_TIMEOUT_MS });
+        Logger.info(`[Flink JobManager] Jar ${jarId} submitted job ${result.jobid}`);
+        return result.jobid;
+    }
+
+    /**
+     * Plan of the job an uploaded jar would submit, without running it
+     * ({ jid, name, nodes }, like the plan of a job). Throws if the main method fails.
+     */
+    async getJarPlan(jarId: string, options: JarRunOptions = {}): Promise<any> {
+        const result = await this.transport.json(`${this.jobManagerUrl}/jars/${encodeURIComponent(jarId)}/plan`, 'POST',
+            this.jarRequestBody(options), { timeoutMs: JAR_REQUEST_TIMEOUT_MS });
+        return result.plan;
+    }
+
+    async deleteJar(jarId: string): Promise<void> {
+        await this.jobManagerRequest(`/jars/${encodeURIComponent(jarId)}`, 'DELETE');
+        Logger.info(`[Flink JobManager] Deleted jar ${jarId}`);
+    }
+
+    // Unset options are left out so the JobManager applies its defaults
+    private jarRequestBody(options: JarRunOptions): any {
+        return {
+            entryClass: options.entryClass,
+            programArgsList: options.programArgs,
+            parallelism: options.parallelism,
+            savepointPath: options.savepointPath,
+            allowNonRestoredState: options.allowNonRestoredState
+        };
+    }
+
     async getJobDetails(jobId: string): Promise<any> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/jobs/${jobId}`);
-            if (!response.ok) {
-                Logger.warn(`[Flink JobManager] Failed to fetch details for job ${jobId}: ${await response.text()}`);
-                return null;
+            return await this.jobManagerRequest(`/jobs/${jobId}`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch details for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Parallelism bounds of every vertex of a job. Only the adaptive scheduler
+     * supports them, null if the JobManager rejects the request.
+     */
+    async getResourceRequirements(jobId: string): Promise<ResourceRequirements | null> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/resource-requirements`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch resource requirements for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Sets new parallelism bounds. The adaptive scheduler restarts the job with a
+     * parallelism within the bounds once enough slots are available.
+     */
+    async setResourceRequirements(jobId: string, requirements: ResourceRequirements): Promise<void> {
+        await this.jobManagerRequest(`/jobs/${jobId}/resource-requirements`, 'PUT', requirements);
+        Logger.info(`[Flink JobManager] Resource requirements of job ${jobId} updated`);
+    }
+
+    /**
+     * Polls a job after its resource requirements changed until it runs with every vertex
+     * within its bounds, and returns the job details. A job that stays within its bounds
+     * without restarting for `settleMs` is not rescaled (e.g. no free slots to scale up).
+     * Throws if the job reaches a terminal state.
+     */
+    async waitForRescale(
+        jobId: string,
+        requirements: ResourceRequirements,
+        token?: vscode.CancellationToken,
+        onState?: (state: string) => void,
+        pollIntervalMs: number = 1000,
+        settleMs: number = 30000
+    ): Promise<any> {
+        const start = Date.now();
+        let initial: Map<string, number> | undefined;
+        let restarted = false;
+
+        while (!token?.isCancellationRequested) {
+            const job = await this.getJobDetails(jobId);
+            if (job) {
+                if (['FAILED', 'CANCELED', 'FINISHED', 'SUSPENDED'].includes(job.state)) {
+                    throw new Error(`Job ${jobId} is ${job.state}`);
+                }
+                const vertices: any[] = job.vertices || [];
+                const parallelism = new Map(vertices.map(v => [v.id, v.parallelism]));
+                initial = initial || parallelism;
+                restarted = restarted || job.state !== 'RUNNING' || vertices.some(v => initial!.get(v.id) !== v.parallelism);
+
+                const withinBounds = vertices.every(v => {
+                    const bounds = requirements[v.id]?.parallelism;
+                    return !bounds || (v.parallelism >= bounds.lowerBound && v.parallelism <= bounds.upperBound);
+                });
+                // Vertices of bounded sources may have finished already
+                const running = job.state === 'RUNNING' && vertices.every(v => v.status === 'RUNNING' || v.status === 'FINISHED');
+                if (running && withinBounds && (restarted || Date.now() - start >= settleMs)) {
+                    return job;
+                }
+                onState?.(job.state);
             }
-            return await response.json();
+            await new Promise(r => setTimeout(r, pollIntervalMs));
+        }
+        throw new vscode.CancellationError();
+    }
+
+    // Checkpoint statistics: counts, latest checkpoints/savepoints and recent history
+    async getJobCheckpoints(jobId: string): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/checkpoints`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch checkpoints for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Root exception and exception history (GET /jobs/{id}/exceptions). The history groups
+     * concurrent task failures under the failure that caused the restart.
+     */
+    async getJobExceptions(jobId: string, maxExceptions: number = 50): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/exceptions?maxExceptions=${maxExceptions}`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch exceptions for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Execution config of a job: execution mode, restart strategy, parallelism, object
+     * reuse and the global job parameters ('user-config').
+     */
+    async getJobExecutionConfig(jobId: string): Promise<any> {
+        try {
+            const result = await this.jobManagerRequest(`/jobs/${jobId}/config`);
+            return result['execution-config'] || null;
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch execution config for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Configuration a job was submitted with ({ key, value } entries). Flink 1.19+, null on older JobManagers.
+    async getJobConfiguration(jobId: string): Promise<{ key: string; value: string }[] | null> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/jobmanager/config`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch configuration for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Configuration of the JobManager, the cluster defaults of all jobs ({ key, value } entries, secrets masked)
+    async getJobManagerConfig(): Promise<{ key: string; value: string }[] | null> {
+        try {
+            return await this.jobManagerRequest('/jobmanager/config');
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch JobManager configuration: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Checkpointing settings: interval, timeout, mode (exactly/at-least once), unaligned, retention
+    async getCheckpointConfig(jobId: string): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/checkpoints/config`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch checkpoint config for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Per-operator statistics of one checkpoint
+    async getCheckpointDetails(jobId: string, checkpointId: number): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/checkpoints/details/${checkpointId}`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch checkpoint ${checkpointId} of job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    // Per-subtask statistics (alignment, start delay, sync/async duration) of one operator in a checkpoint
+    async getCheckpointSubtaskDetails(jobId: string, checkpointId: number, vertexId: string): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/checkpoints/details/${checkpointId}/subtasks/${vertexId}`);
         } catch (error: any) {
-            Logger.error(`[Flink JobManager] Error fetching details for job ${jobId}:`, error);
+            Logger.warn(`[Flink JobManager] Failed to fetch subtasks of ${vertexId} in checkpoint ${checkpointId}: ${error.message}`);
             return null;
         }
     }
 
     async getJobPlan(jobId: string): Promise<any> {
         try {
-            const response = await fetch(`${this.jobManagerUrl}/jobs/${jobId}/plan`);
-            if (!response.ok) {
-                Logger.warn(`[Flink JobManager] Failed to fetch plan for job ${jobId}: ${await response.text()}`);
-                return null;
-            }
-            return await response.json();
+            return await this.jobManagerRequest(`/jobs/${jobId}/plan`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch plan for job ${jobId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Backpressure of a vertex: level (ok/low/high) of the vertex and its subtasks, with
+     * the backpressured/idle/busy ratios on Flink 1.13+. Older JobManagers sample on
+     * request and report status 'deprecated' until the sample is ready.
+     */
+    async getVertexBackPressure(jobId: string, vertexId: string): Promise<any> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/vertices/${vertexId}/backpressure`);
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch backpressure of ${vertexId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Metrics of a vertex aggregated over its subtasks, by metric name. Metrics the
+     * vertex does not report are missing from the result.
+     */
+    async getVertexMetrics(jobId: string, vertexId: string, metrics: string[]): Promise<Record<string, AggregatedMetric> | null> {
+        try {
+            const query = `get=${metrics.map(encodeURIComponent).join(',')}&agg=min,max,avg,sum`;
+            const result: any[] = await this.jobManagerRequest(`/jobs/${jobId}/vertices/${vertexId}/subtasks/metrics?${query}`);
+            return Object.fromEntries((result || []).map(m => [m.id, { min: m.min, max: m.max, avg: m.avg, sum: m.sum }]));
+        } catch (error: any) {
+            Logger.warn(`[Flink JobManager] Failed to fetch metrics of ${vertexId}: ${error.message}`);
+            return null;
+        }
+    }
+
+    /**
+     * Flame graph of a vertex ({ endTimestamp, data: { name, value, children } }). The first
+     * request starts sampling, data follows on later requests. Throws if the JobManager
+     * rejects the request, e.g. when rest.flamegraph.enabled is off.
+     */
+    async getVertexFlameGraph(jobId: string, vertexId: string, type: FlameGraphType): Promise<any> {
+        return this.jobManagerRequest(`/jobs/${jobId}/vertices/${vertexId}/flamegraph?type=${type}`);
+    }
+
+    /**
+     * Current input watermark of every subtask of a vertex, as metric entries
+     * ({ id: '<subtask>.currentInputWatermark', value: '<epoch millis>' }).
+     */
+    async getVertexWatermarks(jobId: string, vertexId: string): Promise<any[] | null> {
+        try {
+            return await this.jobManagerRequest(`/jobs/${jobId}/vertices/${vertexId}/watermarks`);
         } catch (error: any) {
-            Logger.error(`[Flink JobManager] Error fetching plan for job ${jobId}:`, error);
+            Logger.warn(`[Flink JobManager] Failed to fetch watermarks of ${vertexId}: ${error.message}`);
             return null;
         }
     }
 
+    /**
+     * Releases an operation and its buffered results on the gateway.
+     */
+    async closeOperation(sessionHandle: string, statementHandle: string): Promise<void> {
+        await this.request(`/sessions/${sessionHandle}/operations/${statementHandle}/close`, 'DELETE');
+    }
+
     async cancelOperation(sessionHandle: string, statementHandle: string, jobId?: string): Promise<void> {
         // First, try to cancel the actual Flink job if we have the jobId
         if (jobId) {
@@ -279,7 +714,7 @@ export class FlinkGatewayClient {
 
             // Also close the operation to release resources
             try {
-                await this.request(`/sessions/${sessionHandle}/operations/${statementHandle}/close`, 'DELETE');
+                await this.closeOperation(sessionHandle, statementHandle);
                 Logger.info('[Flink] Operation closed');
             } catch (closeError) {
                 // Closing might fail if already closed, that's ok
@@ -305,33 +740,38 @@ export class FlinkGatewayClient {
     private async executeMetadataSql(sessionHandle: string, sql: string): Promise<any[]> {
         const { statementHandle } = await this.executeStatement(sessionHandle, sql);
 
-        // Metadata queries (SHOW TABLES, etc) should be instant.
-        // We poll immediately once.
-        let result = await this.fetchResults(sessionHandle, statementHandle, 0);
-
-        // If not ready immediately, fast retry loop (max 1 second)
-        let retries = 0;
-        while (result.resultType !== 'EOS' && retries < 20) {
-            await new Promise(r => setTimeout(r, 50)); // 50ms interval
-            if (result.nextResultToken !== undefined) {
-                result = await this.fetchResults(sessionHandle, statementHandle, result.nextResultToken);
-            } else {
-                result = await this.fetchResults(sessionHandle, statementHandle, 0);
+        const rows: any[] = [];
+        try {
+            // Metadata queries (SHOW TABLES, etc) should be instant.
+            // We poll immediately once.
+            let result = await this.fetchResults(sessionHandle, statementHandle, 0);
+            rows.push(...result.results);
+
+            // If not ready immediately, fast retry loop (max 1 second).
+            // Follows nextResultUri and collects every page until EOS.
+            let retries = 0;
+            while (result.resultType !== 'EOS' && retries < 20) {
+                if (result.resultType === 'NOT_READY') {
+                    await new Promise(r => setTimeout(r, 50)); // 50ms interval
+                }
+                result = await this.fetchResults(sessionHandle, statementHandle, result.nextResultToken ?? 0);
+                rows.push(...result.results);
+                retries++;
             }
-            retries++;
+        } finally {
+            // Results are fully read (or abandoned), release the operation
+            this.closeOperation(sessionHandle, statementHandle).catch(e =>
+                Logger.warn(`[Flink] Failed to close metadata operation ${statementHandle}: ${e.message}`));
         }
 
-        // Return whatever we have. For metadata, we expect 1 page.
         // Deduplication for safety
         const uniqueRows: any[] = [];
         const seen = new Set<string>();
-        if (result.results) {
-            for (const row of result.results) {
-                const key = JSON.stringify(row);
-                if (!seen.has(key)) {
-                    seen.add(key);
-                    uniqueRows.push(row);
-                }
+        for (const row of rows) {
+            const key = JSON.stringify(row);
+            if (!seen.has(key)) {
+                seen.add(key);
+                uniqueRows.push(row);
             }
         }
         return uniqueRows;
@@ -408,39 +848,98 @@ export class FlinkGatewayClient {
     }
 
     /**
-     * Lists all objects (tables and views) with their kind for a specific database.
-     * Switches to the catalog/database context first, then runs SHOW TABLES and SHOW VIEWS.
+     * Runs sequences of statements that depend on a session's USE context one at a time,
+     * so concurrent metadata requests cannot switch the context under each other.
      */
-    async listTablesWithKindInDatabase(sessionHandle: string, catalog: string, database: string): Promise<{ name: string, kind: string }[]> {
-        let tables: string[] = [];
-        let views: string[] = [];
-
+    private async withSessionLock<T>(sessionHandle: string, fn: () => Promise<T>): Promise<T> {
+        const previous = FlinkGatewayClient.sessionLocks.get(sessionHandle) || Promise.resolve();
+        const run = previous.catch(() => undefined).then(fn);
+        FlinkGatewayClient.sessionLocks.set(sessionHandle, run);
         try {
-            // Switch to the target catalog and database
-            await this.executeMetadataSql(sessionHandle, `USE CATALOG \`${catalog}\``);
-            await this.executeMetadataSql(sessionHandle, `USE \`${database}\``);
+            return await run;
+        } finally {
+            if (FlinkGatewayClient.sessionLocks.get(sessionHandle) === run) {
+                FlinkGatewayClient.sessionLocks.delete(sessionHandle);
+            }
+        }
+    }
 
-            // Now fetch tables and views from current context
-            try {
-                const tableRows = await this.executeMetadataSql(sessionHandle, 'SHOW TABLES');
-                tables = tableRows.map(r => this.getValue(r, 0));
-                Logger.info(`[FlinkClient] Found ${tables.length} items from SHOW TABLES in ${catalog}.${database}`);
-            } catch (e) {
-                Logger.warn(`[FlinkClient] SHOW TABLES in ${catalog}.${database} failed:`, e);
+    /**
+     * Runs a database-scoped SHOW statement without touching the session's USE context.
+     * Tries the qualified form (`SHOW TABLES FROM cat.db`) on the given session first; gateways
+     * that reject it get `USE CATALOG` + `USE` + the unqualified form on the hidden metadata session.
+     */
+    private async executeInDatabase(
+        sessionHandle: string,
+        catalog: string,
+        database: string,
+        statement: 'SHOW TABLES' | 'SHOW VIEWS',
+        metadataSession: (expired?: string) => Promise<string>
+    ): Promise<any[]> {
+        try {
+            return await this.executeMetadataSql(sessionHandle, `${statement} FROM \`${catalog}\`.\`${database}\``);
+        } catch (e) {
+            if (!(e instanceof FlinkServerError)) {
+                throw e;
             }
+            Logger.info(`[FlinkClient] ${statement} FROM not supported, using the metadata session for ${catalog}.${database}`);
+        }
 
-            try {
-                const viewRows = await this.executeMetadataSql(sessionHandle, 'SHOW VIEWS');
-                views = viewRows.map(r => this.getValue(r, 0));
-                Logger.info(`[FlinkClient] Found ${views.length} views from SHOW VIEWS in ${catalog}.${database}`);
-            } catch (e) {
-                Logger.warn(`[FlinkClient] SHOW VIEWS in ${catalog}.${database} failed:`, e);
+        const run = (handle: string) => this.withSessionLock(handle, async () => {
+            await this.executeMetadataSql(handle, `USE CATALOG \`${catalog}\``);
+            await this.executeMetadataSql(handle, `USE \`${database}\``);
+            return this.executeMetadataSql(handle, statement);
+        });
+        const handle = await metadataSession();
+        try {
+            return await run(handle);
+        } catch (e) {
+            if (!isSessionNotFoundError(e)) {
+                throw e;
             }
+            // The gateway expired the metadata session, retry once on a new one
+            return run(await metadataSession(handle));
+        }
+    }
+
+    /**
+     * Lists the tables (and views) of a database without changing the session's USE context.
+     */
+    async listTablesInDatabase(sessionHandle: string, catalog: string, database: string, metadataSession: (expired?: string) => Promise<string>): Promise<string[]> {
+        const rows = await this.executeInDatabase(sessionHandle, catalog, database, 'SHOW TABLES', metadataSession);
+        return rows.map(r => this.getValue(r, 0));
+    }
+
+    /**
+     * Lists all objects (tables and views) with their kind for a specific database.
+     * Never changes the session's USE context (see executeInDatabase). Note that on the
+     * metadata session fallback, temporary views of the user's session are listed as tables.
+     */
+    async listTablesWithKindInDatabase(
+        sessionHandle: string,
+        catalog: string,
+        database: string,
+        metadataSession: (expired?: string) => Promise<string>
+    ): Promise<{ name: string, kind: string }[]> {
+        let tables: string[] = [];
+        let views: string[] = [];
+
+        try {
+            tables = await this.listTablesInDatabase(sessionHandle, catalog, database, metadataSession);
+            Logger.info(`[FlinkClient] Found ${tables.length} items from SHOW TABLES in ${catalog}.${database}`);
         } catch (e) {
-            Logger.warn(`[FlinkClient] Failed to switch to ${catalog}.${database}:`, e);
+            Logger.warn(`[FlinkClient] SHOW TABLES in ${catalog}.${database} failed:`, e);
             return [];
         }
 
+        try {
+            const viewRows = await this.executeInDatabase(sessionHandle, catalog, database, 'SHOW VIEWS', metadataSession);
+            views = viewRows.map(r => this.getValue(r, 0));
+            Logger.info(`[FlinkClient] Found ${views.length} views from SHOW VIEWS in ${catalog}.${database}`);
+        } catch (e) {
+            Logger.warn(`[FlinkClient] SHOW VIEWS in ${catalog}.${database} failed:`, e);
+        }
+
         // Create a set of view names for filtering (case-insensitive)
         const viewSet = new Set(views.map(v => v.toLowerCase()));
 
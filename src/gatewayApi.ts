@@ -0,0 +1,148 @@
+import type { ResultColumn, ResultData } from './flinkClient';
+import { parseLogicalType } from './logicalType';
+
+/**
+ * SQL Gateway REST API versions understood by this extension.
+ * - v1: Flink 1.16
+ * - v2: Flink 1.17 (rowFormat, resultKind, isQueryResult, jobID)
+ * - v3: Flink 1.18+ / 2.x (same fetch-results shape as v2)
+ * Ordered from oldest to newest.
+ */
+export const SUPPORTED_API_VERSIONS = ['v1', 'v2', 'v3'] as const;
+
+export type GatewayApiVersion = typeof SUPPORTED_API_VERSIONS[number];
+
+export type ResultType = 'NOT_READY' | 'PAYLOAD' | 'EOS';
+
+// --- Raw response shapes ---
+
+export interface ApiVersionsResponse {
+    versions: string[];
+}
+
+export interface RawRow {
+    kind?: string;
+    fields: any[];
+}
+
+// logicalType is Flink's JSON type descriptor (a SQL string on some older gateways)
+export interface RawColumn {
+    name: string;
+    logicalType: unknown;
+    comment?: string | null;
+}
+
+interface RawResultSet {
+    columns?: RawColumn[];
+    rowFormat?: 'JSON' | 'PLAIN_TEXT';
+    data?: RawRow[];
+}
+
+// v1 (1.16): NOT_READY responses carry no result set
+export interface FetchResultsV1 {
+    resultType: ResultType;
+    results?: RawResultSet;
+    nextResultUri?: string;
+}
+
+// v2/v3 (1.17+): adds statement level information
+export interface FetchResultsV2 extends FetchResultsV1 {
+    resultKind?: 'SUCCESS' | 'SUCCESS_WITH_CONTENT';
+    isQueryResult?: boolean;
+    jobID?: string;
+}
+
+export type FetchResultsV3 = FetchResultsV2;
+
+// --- Negotiation ---
+
+/**
+ * Picks the highest version supported by both the gateway and this client.
+ * The gateway reports versions in upper case ("V1", "V2", ...).
+ */
+export function pickApiVersion(response: ApiVersionsResponse): GatewayApiVersion {
+    const offered = new Set((response.versions || []).map(v => v.toLowerCase()));
+
+    for (let i = SUPPORTED_API_VERSIONS.length - 1; i >= 0; i--) {
+        if (offered.has(SUPPORTED_API_VERSIONS[i])) {
+            return SUPPORTED_API_VERSIONS[i];
+        }
+    }
+
+    throw new Error(`SQL Gateway offers no supported REST API version (offered: ${response.versions?.join(', ') || 'none'})`);
+}
+
+/**
+ * Returns true if the negotiated version is at least `minimum`.
+ */
+export function isApiVersionAtLeast(version: GatewayApiVersion, minimum: GatewayApiVersion): boolean {
+    return SUPPORTED_API_VERSIONS.indexOf(version) >= SUPPORTED_API_VERSIONS.indexOf(minimum);
+}
+
+/**
+ * Path of the fetch-results endpoint. Since v2 the row format is a required query parameter.
+ */
+export function fetchResultsPath(version: GatewayApiVersion, sessionHandle: string, operationHandle: string, token: number): string {
+    const path = `/sessions/${sessionHandle}/operations/${operationHandle}/result/${token}`;
+    return version === 'v1' ? path : `${path}?rowFormat=JSON`;
+}
+
+// --- Decoders ---
+
+export function decodeFetchResults(version: GatewayApiVersion, raw: unknown): ResultData {
+    switch (version) {
+        case 'v1':
+            return decodeFetchResultsV1(raw as FetchResultsV1);
+        case 'v2':
+        case 'v3':
+            return decodeFetchResultsV2(raw as FetchResultsV2);
+    }
+}
+
+function decodeFetchResultsV1(raw: FetchResultsV1): ResultData {
+    assertResultType(raw);
+    return {
+        results: raw.results?.data || [],
+        columns: decodeColumns(raw.results?.columns),
+        resultType: raw.resultType,
+        nextResultUri: raw.nextResultUri,
+        nextResultToken: parseNextToken(raw.nextResultUri),
+        // v1 does not report whether the statement is a query
+        isQueryResult: false
+    };
+}
+
+function decodeFetchResultsV2(raw: FetchResultsV2): ResultData {
+    assertResultType(raw);
+    return {
+        results: raw.results?.data || [],
+        columns: decodeColumns(raw.results?.columns),
+        resultKind: raw.resultKind,
+        resultType: raw.resultType,
+        jobID: raw.jobID,
+        nextResultUri: raw.nextResultUri,
+        nextResultToken: parseNextToken(raw.nextResultUri),
+        isQueryResult: raw.isQueryResult === true
+    };
+}
+
+function decodeColumns(columns?: RawColumn[]): ResultColumn[] {
+    return (columns || []).map(c => ({
+        name: c.name,
+        logicalType: parseLogicalType(c.logicalType),
+        comment: c.comment || undefined
+    }));
+}
+
+function assertResultType(raw: FetchResultsV1): void {
+    if (!raw || typeof raw.resultType !== 'string') {
+        throw new Error(`Unexpected fetch-results response from SQL Gateway: ${JSON.stringify(raw)}`);
+    }
+}
+
+// nextResultUri looks like /v2/sessions/{s}/operations/{o}/result/{token}?rowFormat=JSON
+function parseNextToken(nextResultUri?: string): number | undefined {
+    if (!nextResultUri) { return undefined; }
+    const match = nextResultUri.match(/\/result\/(\d+)/);
+    return match ? parseInt(match[1], 10) : undefined;
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { planText, renderPlanPreview } from './jobGraphPanel';
+import { WebviewHelper } from './utils/webviewHelper';
+
+/**
+ * Plan of the job a jar would submit with the given entry class, arguments and
+ * parallelism: the dataflow graph and the operators of every vertex.
+ */
+export class JarPlanPanel {
+    private static panels = new Map<string, vscode.WebviewPanel>();
+
+    static show(jarId: string, jarName: string, entryClass: string | undefined, plan: any) {
+        let panel = JarPlanPanel.panels.get(jarId);
+        if (panel) {
+            panel.reveal();
+        } else {
+            panel = vscode.window.createWebviewPanel(
+                'flinkJarPlan',
+                `Plan: ${jarName}`,
+                vscode.ViewColumn.One,
+                { enableScripts: false }
+            );
+            JarPlanPanel.panels.set(jarId, panel);
+            panel.onDidDispose(() => JarPlanPanel.panels.delete(jarId));
+        }
+        panel.webview.html = JarPlanPanel.getHtml(jarName, entryClass, plan);
+    }
+
+    private static getHtml(jarName: string, entryClass: string | undefined, plan: any): string {
+        const esc = WebviewHelper.escapeHtml;
+        const graph = renderPlanPreview(plan);
+        const nodes: any[] = plan?.nodes || [];
+
+        const rows = nodes.map(n => `
+            <tr>
+                <td>${esc(n.id)}</td>
+                <td>${esc(n.parallelism ?? '-')}</td>
+                <td><pre>${esc(planText(n.description))}</pre></td>
+            </tr>`).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        :root {
+            --border: var(--vscode-widget-border, var(--vscode-panel-border));
+            --fg: var(--vscode-editor-foreground);
+            --sub-fg: var(--vscode-descriptionForeground);
+        }
+        body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--fg); padding: 10px 20px; }
+        .header { display: flex; align-items: baseline; gap: 10px; margin-bottom: 15px; border-bottom: 1px solid var(--border); padding-bottom: 5px; }
+        .title { font-weight: bold; font-size: 1.2em; }
+        .muted { color: var(--sub-fg); }
+        .section-title { font-weight: bold; margin: 20px 0 8px; text-transform: uppercase; font-size: 0.85em; color: var(--sub-fg); }
+        table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+        th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid var(--border); vertical-align: top; }
+        th { color: var(--sub-fg); font-weight: normal; }
+        pre { font-family: var(--vscode-editor-font-family); font-size: 0.9em; white-space: pre-wrap; margin: 0; }
+        ${graph.styles}
+    </style>
+</head>
+<body>
+    <div class="header">
+        <span class="title">${esc(plan?.name || jarName)}</span>
+        <span class="muted">${esc(jarName)}${entryClass ? ` · ${esc(entryClass)}` : ''} · ${nodes.length} vertices · not submitted</span>
+    </div>
+    ${nodes.length > 0 ? graph.html : '<div class="muted">The plan has no vertices.</div>'}
+
+    <div class="section-title">Vertices</div>
+    <table>
+        <thead><tr><th>Vertex</th><th>Parallelism</th><th>Operators</th></tr></thead>
+        <tbody>${rows}</tbody>
+    </table>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,358 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConnectionManager, FlinkConnection } from './connectionManager';
+import { FlinkGatewayClient, JarRunOptions } from './flinkClient';
+import { JarPlanPanel } from './jarPlanPanel';
+import { JobGraphPanel } from './jobGraphPanel';
+import { SessionInfo, SessionManager } from './sessionManager';
+import { Logger } from './utils/logger';
+
+// A jar as listed by GET /jars
+interface JarData {
+    id: string;
+    name: string;
+    uploaded: number;
+    entry: { name: string; description?: string }[];
+}
+
+// What was entered when the jar was last run, offered again for the next run
+interface RunInputs {
+    entryClass: string;
+    programArgs: string;
+    parallelism: string;
+    savepointPath: string;
+}
+
+// Splits program arguments like a shell: separated by whitespace, quotes group ("--name=a b")
+function parseArguments(text: string): string[] {
+    return (text.match(/(?:"[^"]*"|'[^']*'|[^\s"']+)+/g) || [])
+        .map(arg => arg.replace(/"([^"]*)"|'([^']*)'/g, '$1$2'));
+}
+
+/**
+ * Jars uploaded to the JobManager of every connection (DataStream/Table API programs).
+ * Jars can be uploaded from the workspace, run, previewed as a plan and deleted.
+ */
+export class FlinkJarsProvider implements vscode.TreeDataProvider<JarTreeItem>, vscode.Disposable {
+    private _onDidChangeTreeData: vscode.EventEmitter<JarTreeItem | undefined | null | void> = new vscode.EventEmitter<JarTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<JarTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    // Fired with the connection and job ID after a jar submitted a job
+    private _onDidRunJar = new vscode.EventEmitter<{ connection: FlinkConnection; jobId: string }>();
+    readonly onDidRunJar = this._onDidRunJar.event;
+
+    // By jar file name, jar IDs change with every upload
+    private lastInputs = new Map<string, RunInputs>();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private connectionManager: ConnectionManager, private sessionManager: SessionManager) {
+        this.disposables.push(connectionManager.onDidChangeConnections(() => this.refresh()));
+    }
+
+    dispose() {
+        this.disposables.forEach(d => d.dispose());
+        this._onDidChangeTreeData.dispose();
+        this._onDidRunJar.dispose();
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: JarTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: JarTreeItem): Promise<JarTreeItem[]> {
+        if (!element) {
+            const connections = this.connectionManager.getAllConnections();
+            if (connections.length === 0) {
+                return [new JarTreeItem('No connections configured', 'empty')];
+            }
+            return connections.map(conn => new JarTreeItem(conn.name, 'connection', conn));
+        }
+
+        if (element.itemType !== 'connection' || !element.connection) {
+            return [];
+        }
+
+        const jars: JarData[] | null = await this.createClient(element.connection).getJars();
+        if (jars === null) {
+            return [new JarTreeItem('JobManager Offline', 'offline', element.connection)];
+        }
+        if (jars.length === 0) {
+            return [new JarTreeItem('No jars uploaded', 'empty', element.connection)];
+        }
+        return [...jars]
+            .sort((a, b) => b.uploaded - a.uploaded)
+            .map(jar => new JarTreeItem(jar.name, 'jar', element.connection, jar));
+    }
+
+    private createClient(connection: FlinkConnection): FlinkGatewayClient {
+        return this.connectionManager.createClient(connection);
+    }
+
+    private async pickConnection(): Promise<FlinkConnection | undefined> {
+        const connections = this.connectionManager.getAllConnections();
+        if (connections.length <= 1) {
+            return connections[0];
+        }
+        const selected = await vscode.window.showQuickPick(
+            connections.map(conn => ({ label: conn.name, description: conn.jobManagerUrl, conn })),
+            { placeHolder: 'Select the connection to upload the jar to' }
+        );
+        return selected?.conn;
+    }
+
+    // A jar from the workspace, or any jar on disk via the file dialog
+    private async pickJarFile(): Promise<vscode.Uri | undefined> {
+        const workspaceJars = await vscode.workspace.findFiles('**/*.jar', '**/node_modules/**', 500);
+        if (workspaceJars.length > 0) {
+            const selected = await vscode.window.showQuickPick([
+                ...workspaceJars
+                    .sort((a, b) => a.fsPath.localeCompare(b.fsPath))
+                    .map(uri => ({ label: `$(package) ${path.basename(uri.fsPath)}`, description: vscode.workspace.asRelativePath(path.dirname(uri.fsPath)), uri })),
+                { label: '$(folder-opened) Browse...', description: '', uri: undefined }
+            ], { placeHolder: 'Select the jar to upload' });
+            if (!selected) { return undefined; }
+            if (selected.uri) { return selected.uri; }
+        }
+
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { 'Java Archives': ['jar'] },
+            openLabel: 'Upload'
+        });
+        return uris?.[0];
+    }
+
+    public async uploadJar(item?: JarTreeItem): Promise<void> {
+        const connection = item?.connection ?? await this.pickConnection();
+        if (!connection) { return; }
+        const uri = await this.pickJarFile();
+        if (!uri) { return; }
+
+        const name = path.basename(uri.fsPath);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Uploading ${name} to ${connection.name}`
+            }, () => this.createClient(connection).uploadJar(uri.fsPath));
+            vscode.window.showInformationMessage(`Uploaded ${name} to ${connection.name}.`);
+            this.refresh();
+        } catch (error: any) {
+            Logger.error(`[Flink Jars] Failed to upload ${uri.fsPath}:`, error.message);
+            vscode.window.showErrorMessage(`Failed to upload ${name}: ${error.message}`);
+        }
+    }
+
+    public async runJar(item: JarTreeItem): Promise<void> {
+        if (!item.jar || !item.connection) { return; }
+        const jar = item.jar;
+        const connection = item.connection;
+
+        const options = await this.promptRunOptions(jar, true);
+        if (!options) { return; }
+
+        const client = this.createClient(connection);
+        try {
+            const jobId = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Submitting ${jar.name}`
+            }, () => client.runJar(jar.id, options));
+
+            this._onDidRunJar.fire({ connection, jobId });
+
+            // The jobs views follow the active session's connection
+            if (this.isActiveConnection(connection)) {
+                const action = await vscode.window.showInformationMessage(`${jar.name} submitted job ${jobId}.`, 'Show Job');
+                if (action === 'Show Job') {
+                    JobGraphPanel.show(client, jobId);
+                }
+                return;
+            }
+            const switchAction = `Switch to ${connection.name}`;
+            const action = await vscode.window.showInformationMessage(
+                `${jar.name} submitted job ${jobId} on ${connection.name}. The jobs views show another connection.`,
+                'Show Job', switchAction
+            );
+            if (action === 'Show Job') {
+                JobGraphPanel.show(client, jobId);
+            } else if (action === switchAction) {
+                await this.switchToConnection(connection);
+            }
+        } catch (error: any) {
+            Logger.error(`[Flink Jars] Failed to run ${jar.id}:`, error.message);
+            vscode.window.showErrorMessage(`Failed to run ${jar.name}: ${error.message}`);
+        }
+    }
+
+    // Same fallback as the jobs views: the first connection if there is no active session
+    private isActiveConnection(connection: FlinkConnection): boolean {
+        const handle = this.sessionManager.getCurrentSessionHandle();
+        const active = handle ? this.sessionManager.getConnectionForSession(handle) : this.connectionManager.getFirstConnection();
+        return active?.id === connection.id;
+    }
+
+    // Activates the most recently used session of the connection, or creates one
+    private async switchToConnection(connection: FlinkConnection): Promise<void> {
+        const lastUsed = (s: SessionInfo) => s.lastUsedAt ?? s.createdAt;
+        const session = this.sessionManager.getAllSessions()
+            .filter(s => s.connectionId === connection.id)
+            .sort((a, b) => lastUsed(b) - lastUsed(a))[0];
+        try {
+            if (session) {
+                await this.sessionManager.setActiveSession(session.handle);
+            } else {
+                await this.sessionManager.createSession('default', connection.id);
+            }
+        } catch (error: any) {
+            Logger.error(`[Flink Jars] Failed to switch to ${connection.name}:`, error.message);
+        }
+    }
+
+    public async showPlan(item: JarTreeItem): Promise<void> {
+        if (!item.jar || !item.connection) { return; }
+        const jar = item.jar;
+
+        const options = await this.promptRunOptions(jar, false);
+        if (!options) { return; }
+
+        try {
+            const plan = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Building the plan of ${jar.name}`
+            }, () => this.createClient(item.connection!).getJarPlan(jar.id, options));
+            JarPlanPanel.show(jar.id, jar.name, options.entryClass, plan);
+        } catch (error: any) {
+            Logger.error(`[Flink Jars] Failed to build the plan of ${jar.id}:`, error.message);
+            vscode.window.showErrorMessage(`Failed to build the plan of ${jar.name}: ${error.message}`);
+        }
+    }
+
+    public async deleteJar(item: JarTreeItem): Promise<void> {
+        if (!item.jar || !item.connection) { return; }
+
+        const answer = await vscode.window.showWarningMessage(
+            `Delete ${item.jar.name} from ${item.connection.name}?`,
+            { modal: true, detail: 'Running jobs of the jar are not affected.' },
+            'Delete'
+        );
+        if (answer !== 'Delete') { return; }
+
+        try {
+            await this.createClient(item.connection).deleteJar(item.jar.id);
+            this.refresh();
+        } catch (error: any) {
+            Logger.error(`[Flink Jars] Failed to delete ${item.jar.id}:`, error.message);
+            vscode.window.showErrorMessage(`Failed to delete ${item.jar.name}: ${error.message}`);
+        }
+    }
+
+    /**
+     * Asks for entry class, program arguments, parallelism and, when running, the
+     * savepoint to restore from. Undefined if cancelled.
+     */
+    private async promptRunOptions(jar: JarData, withSavepoint: boolean): Promise<JarRunOptions | undefined> {
+        const last = this.lastInputs.get(jar.name);
+        const entries = (jar.entry || []).map(e => e.name);
+
+        const entryClass = await vscode.window.showInputBox({
+            title: `${jar.name}: Entry Class`,
+            prompt: 'Main class of the program (leave empty to use the Main-Class of the manifest)',
+            placeHolder: entries.join(', ') || 'com.example.StreamingJob',
+            value: last?.entryClass ?? entries[0] ?? ''
+        });
+        if (entryClass === undefined) { return undefined; }
+
+        const programArgs = await vscode.window.showInputBox({
+            title: `${jar.name}: Program Arguments`,
+            prompt: 'Arguments passed to the main method, quote arguments containing spaces',
+            placeHolder: '--input kafka:orders --window "5 min"',
+            value: last?.programArgs ?? ''
+        });
+        if (programArgs === undefined) { return undefined; }
+
+        const parallelism = await vscode.window.showInputBox({
+            title: `${jar.name}: Parallelism`,
+            prompt: 'Default parallelism of the job (leave empty to use parallelism.default of the cluster)',
+            value: last?.parallelism ?? '',
+            validateInput: value => !value.trim() || /^[1-9]\d*$/.test(value.trim()) ? undefined : 'Enter a positive number'
+        });
+        if (parallelism === undefined) { return undefined; }
+
+        let savepointPath = last?.savepointPath ?? '';
+        let allowNonRestoredState = false;
+        if (withSavepoint) {
+            const value = await vscode.window.showInputBox({
+                title: `${jar.name}: Savepoint`,
+                prompt: 'Savepoint or retained checkpoint to restore from (leave empty to start without state)',
+                placeHolder: 's3://bucket/savepoints/savepoint-1a2b3c-0123456789ab',
+                value: savepointPath
+            });
+            if (value === undefined) { return undefined; }
+            savepointPath = value.trim();
+
+            if (savepointPath) {
+                const restore = await vscode.window.showQuickPick([
+                    { label: 'Restore All State', description: 'Fail if state cannot be mapped to an operator', allow: false },
+                    { label: 'Allow Non-Restored State', description: 'Skip state of removed operators', allow: true }
+                ], { placeHolder: 'How to restore the savepoint' });
+                if (!restore) { return undefined; }
+                allowNonRestoredState = restore.allow;
+            }
+        }
+
+        this.lastInputs.set(jar.name, { entryClass, programArgs, parallelism, savepointPath });
+        return {
+            entryClass: entryClass.trim() || undefined,
+            programArgs: parseArguments(programArgs),
+            parallelism: parallelism.trim() ? Number(parallelism) : undefined,
+            savepointPath: withSavepoint && savepointPath ? savepointPath : undefined,
+            allowNonRestoredState: withSavepoint && savepointPath ? allowNonRestoredState : undefined
+        };
+    }
+}
+
+export class JarTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly label: string,
+        public readonly itemType: 'connection' | 'jar' | 'empty' | 'offline',
+        public readonly connection?: FlinkConnection,
+        public readonly jar?: JarData
+    ) {
+        super(label, itemType === 'connection' ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+
+        if (itemType === 'connection' && connection) {
+            this.iconPath = new vscode.ThemeIcon('plug');
+            this.description = connection.jobManagerUrl;
+            this.contextValue = 'flink-jar-connection';
+        } else if (itemType === 'jar' && jar) {
+            this.iconPath = new vscode.ThemeIcon('package');
+            this.description = new Date(jar.uploaded).toLocaleString();
+            const entries = (jar.entry || []).map(e => e.name);
+            this.tooltip = `${jar.name}\nJar ID: ${jar.id}\nUploaded: ${this.description}`
+                + (entries.length > 0 ? `\nEntry classes: ${entries.join(', ')}` : '');
+            this.contextValue = 'flink-jar';
+        } else if (itemType === 'offline') {
+            this.iconPath = new vscode.ThemeIcon('bracket-error');
+            this.contextValue = 'flink-jar-offline';
+        } else {
+            this.contextValue = 'flink-jar-empty';
+            if (connection) {
+                this.description = 'Click to upload a jar';
+                this.command = {
+                    command: 'flinkJars.upload',
+                    title: 'Upload Jar',
+                    arguments: [this]
+                };
+            } else {
+                this.command = {
+                    command: 'flinkConnections.add',
+                    title: 'Add Connection',
+                    arguments: []
+                };
+            }
+        }
+    }
+}
@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FlinkGatewayClient } from './flinkClient';
+import { JobPanel } from './jobPanel';
+import { JobStatementHistory } from './jobStatements';
+import { WebviewHelper } from './utils/webviewHelper';
+
+// Execution config fields and the cluster option each one corresponds to, if any
+const EXECUTION_CONFIG_OPTIONS: Record<string, string | undefined> = {
+    'execution-mode': undefined,
+    'restart-strategy': undefined,
+    'job-parallelism': 'parallelism.default',
+    'object-reuse-mode': 'pipeline.object-reuse'
+};
+
+interface ConfigEntry {
+    key: string;
+    value: string;
+    source: 'Execution Config' | 'Job Configuration' | 'Job Parameters';
+    // Cluster option the value is compared with, none if it has no cluster counterpart
+    option?: string;
+}
+
+// The configuration a job was submitted with never changes, the cluster defaults are read once as well
+interface JobConfig {
+    execution: any | null;
+    configuration: { key: string; value: string }[] | null;
+    cluster: Map<string, string> | null;
+}
+
+/**
+ * Options a job was submitted with: its execution config, job configuration and
+ * global job parameters as one searchable table, with values that differ from the
+ * cluster configuration highlighted. Jobs launched from a notebook show their statement.
+ */
+export class JobConfigPanel extends JobPanel {
+    private config: JobConfig | undefined;
+
+    static show(client: FlinkGatewayClient, jobId: string, jobName: string | undefined, statements: JobStatementHistory) {
+        JobPanel.open('flinkJobConfig', 'Configuration', client, jobId, jobName,
+            panel => new JobConfigPanel(panel, client, jobId, jobName, statements));
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        client: FlinkGatewayClient,
+        jobId: string,
+        jobName: string | undefined,
+        private readonly statements: JobStatementHistory
+    ) {
+        super(panel, client, jobId, jobName);
+    }
+
+    protected async handleMessage(message: any): Promise<void> {
+        if (message.command === 'openNotebook') {
+            const notebook = await vscode.workspace.openNotebookDocument(vscode.Uri.parse(message.uri));
+            await vscode.window.showNotebookDocument(notebook);
+        }
+    }
+
+    protected async render(_job: any | null): Promise<string> {
+        if (!this.config) {
+            const [execution, configuration, cluster] = await Promise.all([
+                this.client.getJobExecutionConfig(this.jobId),
+                this.client.getJobConfiguration(this.jobId),
+                this.client.getJobManagerConfig()
+            ]);
+            if (!execution && !configuration) {
+                return this.getMessageHtml('The job configuration is not available. The JobManager may be offline or the job no longer known.', true);
+            }
+            this.config = { execution, configuration, cluster: cluster && new Map(cluster.map(e => [e.key, e.value])) };
+        }
+        return this.getHtml(this.config);
+    }
+
+    private getEntries(config: JobConfig): ConfigEntry[] {
+        const entries: ConfigEntry[] = [];
+        for (const [key, value] of Object.entries(config.execution || {})) {
+            if (key === 'user-config') { continue; }
+            // -1 means the cluster default parallelism
+            const option = key === 'job-parallelism' && value === -1 ? undefined : EXECUTION_CONFIG_OPTIONS[key];
+            entries.push({ key, value: String(value), source: 'Execution Config', option });
+        }
+        for (const { key, value } of config.configuration || []) {
+            entries.push({ key, value: String(value), source: 'Job Configuration', option: key });
+        }
+        for (const [key, value] of Object.entries(config.execution?.['user-config'] || {})) {
+            entries.push({ key, value: String(value), source: 'Job Parameters', option: key });
+        }
+        return entries;
+    }
+
+    private getHtml(config: JobConfig): string {
+        const esc = WebviewHelper.escapeHtml;
+        const cluster = config.cluster;
+        const entries = this.getEntries(config);
+
+        // 'changed' if the cluster sets another value, 'job-only' if the cluster does not set it at all
+        const difference = (e: ConfigEntry): 'changed' | 'job-only' | undefined => {
+            if (!cluster || !e.option) { return undefined; }
+            const clusterValue = cluster.get(e.option);
+            return clusterValue === undefined ? 'job-only' : clusterValue !== e.value ? 'changed' : undefined;
+        };
+        const changed = entries.filter(e => difference(e) === 'changed').length;
+        const jobOnly = entries.filter(e => difference(e) === 'job-only').length;
+
+        const rows = entries.map(e => {
+            const diff = difference(e);
+            const clusterValue = e.option ? cluster?.get(e.option) : undefined;
+            return `
+            <tr class="${diff || ''}" data-search="${esc(`${e.key}\n${e.value}`.toLowerCase())}" data-differs="${!!diff}">
+                <td class="key">${esc(e.key)}</td>
+                <td class="value">${esc(e.value)}</td>
+                <td class="value">${clusterValue !== undefined
+                    ? esc(clusterValue)
+                    : `<span class="muted">${e.option && cluster ? 'Not set' : '-'}</span>`}${e.option && e.option !== e.key ? ` <span class="muted">(${esc(e.option)})</span>` : ''}</td>
+                <td class="muted">${esc(e.source)}</td>
+            </tr>`;
+        }).join('');
+
+        const record = this.statements.get(this.jobId);
+        const statement = record ? `
+    <div class="section-title">Submitted From Notebook
+        <span class="muted">· ${esc(path.basename(vscode.Uri.parse(record.notebook).path))} · ${esc(WebviewHelper.formatTimestamp(record.timestamp))}</span>
+        <button class="link" onclick="post({ command: 'openNotebook', uri: ${esc(JSON.stringify(record.notebook))} })">Open Notebook</button>
+        <button class="link" onclick="copyText(${esc(JSON.stringify(record.statement))})">Copy</button>
+    </div>
+    <pre class="sql">${esc(record.statement)}</pre>` : '';
+
+        const parallelism = config.execution?.['job-parallelism'];
+        const body = `
+    <div class="grid">
+        <div class="card"><div class="card-label">Options</div><div class="card-value">${entries.length}</div></div>
+        <div class="card"><div class="card-label">Differ From Cluster</div><div class="card-value ${changed ? 'changed' : ''}">${cluster ? changed : '-'}</div></div>
+        <div class="card"><div class="card-label">Not Set on Cluster</div><div class="card-value ${jobOnly ? 'job-only' : ''}">${cluster ? jobOnly : '-'}</div></div>
+        <div class="card"><div class="card-label">Parallelism</div><div class="card-value">${parallelism === undefined ? '-' : parallelism === -1 ? 'Default' : esc(parallelism)}</div></div>
+    </div>
+    ${statement}
+
+    <div class="section-title">Options <span class="muted">· ${cluster
+        ? 'highlighted values differ from the JobManager configuration or are not set there'
+        : 'the JobManager configuration is not available, differences are not highlighted'}${config.configuration ? '' : ' · the job configuration needs Flink 1.19+'}</span></div>
+    <div class="toolbar">
+        <input id="filter" type="search" placeholder="Filter by key or value (e.g. table.exec, checkpoint)">
+        <label><input id="differencesOnly" type="checkbox"> Only differences</label>
+        <span id="shown" class="muted"></span>
+    </div>
+    <table>
+        <thead><tr><th>Key</th><th>Value</th><th>Cluster</th><th>Source</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="4" class="muted">No options reported</td></tr>'}</tbody>
+    </table>`;
+
+        const styles = `
+        .toolbar { display: flex; gap: 12px; align-items: center; margin-bottom: 8px; }
+        input[type=search] { flex: 1; padding: 4px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, var(--border)); }
+        td.key, td.value { font-family: var(--vscode-editor-font-family); word-break: break-all; }
+        tr.changed td.value:nth-child(2), .card-value.changed { color: var(--vscode-charts-orange); font-weight: bold; }
+        tr.job-only td.value:nth-child(2), .card-value.job-only { color: var(--accent); }
+        pre.sql { font-family: var(--vscode-editor-font-family); white-space: pre-wrap; background: var(--vscode-textCodeBlock-background); padding: 8px; margin: 0 0 15px; }`;
+
+        // The filter is kept in the webview state so it survives re-rendering
+        const script = `
+        const filter = document.getElementById('filter');
+        const differencesOnly = document.getElementById('differencesOnly');
+        filter.value = (vscode.getState() || {}).filter || '';
+        differencesOnly.checked = !!(vscode.getState() || {}).differencesOnly;
+        function applyFilter() {
+            const text = filter.value.toLowerCase();
+            let shown = 0;
+            document.querySelectorAll('tr[data-search]').forEach(row => {
+                const visible = (!text || row.dataset.search.includes(text)) && (!differencesOnly.checked || row.dataset.differs === 'true');
+                row.style.display = visible ? '' : 'none';
+                shown += visible ? 1 : 0;
+            });
+            document.getElementById('shown').textContent = shown + ' shown';
+            vscode.setState({ ...vscode.getState(), filter: filter.value, differencesOnly: differencesOnly.checked });
+        }
+        filter.addEventListener('input', applyFilter);
+        differencesOnly.addEventListener('change', applyFilter);
+        applyFilter();`;
+
+        return this.getPageHtml(body, styles, script);
+    }
+}
@@ -0,0 +1,464 @@
+import { AggregatedMetric, FlameGraphType, FlinkGatewayClient } from './flinkClient';
+import { JobPanel } from './jobPanel';
+import { WebviewHelper } from './utils/webviewHelper';
+
+const NODE_WIDTH = 240;
+const NODE_HEIGHT = 104;
+const LAYER_GAP = 110;
+const NODE_GAP = 30;
+const MARGIN = 20;
+const NAME_LINE_LENGTH = 34;
+const FLAME_ROW_HEIGHT = 18;
+// Frames narrower than this share of all samples are not drawn
+const FLAME_MIN_WIDTH = 0.002;
+
+const FLAME_GRAPH_TYPES: [FlameGraphType, string][] = [
+    ['on_cpu', 'On-CPU'],
+    ['off_cpu', 'Off-CPU'],
+    ['full', 'Mixed']
+];
+
+// Vertex of the job plan, placed on the canvas
+interface GraphNode {
+    id: string;
+    name: string;
+    description: string;
+    parallelism: number;
+    inputs: { id: string; shipStrategy: string; exchange?: string }[];
+    layer: number;
+    x: number;
+    y: number;
+}
+
+// Subtask metrics shown per vertex, aggregated over subtasks
+const VERTEX_METRICS = [
+    'busyTimeMsPerSecond',
+    'idleTimeMsPerSecond',
+    'backPressuredTimeMsPerSecond',
+    'numRecordsInPerSecond',
+    'numRecordsOutPerSecond'
+];
+
+// Live metrics of a running vertex, null where the JobManager did not return them
+interface VertexRuntime {
+    backPressure: any | null;
+    metrics: Record<string, AggregatedMetric> | null;
+}
+
+// Subtask states in the order their segments are drawn in the task bar
+const TASK_STATES: [string, string][] = [
+    ['FINISHED', 'var(--vscode-charts-blue)'],
+    ['RUNNING', 'var(--vscode-charts-green)'],
+    ['INITIALIZING', 'var(--vscode-charts-yellow)'],
+    ['DEPLOYING', 'var(--vscode-charts-yellow)'],
+    ['SCHEDULED', 'var(--vscode-charts-yellow)'],
+    ['CREATED', 'var(--vscode-descriptionForeground)'],
+    ['CANCELING', 'var(--vscode-charts-orange)'],
+    ['CANCELED', 'var(--vscode-descriptionForeground)'],
+    ['FAILED', 'var(--vscode-errorForeground)']
+];
+
+function statusColor(status: string | undefined): string {
+    return TASK_STATES.find(([state]) => state === status)?.[1] || 'var(--border)';
+}
+
+// Plan descriptions are HTML fragments ("...<br/>+- Calc(...)")
+export function planText(description: string): string {
+    return String(description || '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+/**
+ * Draws a flame graph ({ name, value, children }) top-down, root first, each frame
+ * as wide as its share of the samples.
+ */
+function renderFlameGraph(root: any): string {
+    const esc = WebviewHelper.escapeHtml;
+    const total = root.value;
+    const frames: string[] = [];
+    let maxDepth = 0;
+
+    const walk = (node: any, depth: number, x: number) => {
+        const width = node.value / total;
+        if (width < FLAME_MIN_WIDTH) { return; }
+        maxDepth = Math.max(maxDepth, depth);
+        // Stable warm colour per frame name
+        let hash = 0;
+        for (const c of String(node.name)) { hash = (hash * 31 + c.charCodeAt(0)) | 0; }
+        frames.push(`<div class="frame" style="left: ${x * 100}%; width: ${width * 100}%; top: ${depth * FLAME_ROW_HEIGHT}px; background: hsl(${Math.abs(hash) % 50}, 75%, 60%)" title="${esc(node.name)}&#10;${node.value} samples (${(width * 100).toFixed(1)}%)">${esc(node.name)}</div>`);
+        let offset = x;
+        for (const child of node.children || []) {
+            walk(child, depth + 1, offset);
+            offset += child.value / total;
+        }
+    };
+    walk(root, 0, 0);
+
+    return `<div class="flamegraph" style="height: ${(maxDepth + 1) * FLAME_ROW_HEIGHT}px">${frames.join('')}</div>`;
+}
+
+/**
+ * Places the plan vertices left to right: each vertex one layer after its deepest
+ * input, vertices in a layer ordered by the average position of their inputs to
+ * keep edges from crossing.
+ */
+function layoutPlan(planNodes: any[], vertexNames: Map<string, string>): { nodes: GraphNode[]; width: number; height: number } {
+    const nodes: GraphNode[] = planNodes.map(n => ({
+        id: n.id,
+        name: vertexNames.get(n.id) || planText(n.description).split('\n')[0] || n.id,
+        description: planText(n.description),
+        parallelism: n.parallelism,
+        inputs: (n.inputs || []).map((i: any) => ({ id: i.id, shipStrategy: i.ship_strategy, exchange: i.exchange })),
+        layer: 0,
+        x: 0,
+        y: 0
+    }));
+    const byId = new Map(nodes.map(n => [n.id, n]));
+
+    const layers = new Map<string, number>();
+    const layerOf = (node: GraphNode, visiting: Set<string>): number => {
+        const known = layers.get(node.id);
+        if (known !== undefined) { return known; }
+        // Iterations feed back into earlier vertices, ignore the back edge
+        if (visiting.has(node.id)) { return 0; }
+        visiting.add(node.id);
+        const inputs = node.inputs.map(i => byId.get(i.id)).filter((n): n is GraphNode => !!n);
+        const layer = inputs.length === 0 ? 0 : 1 + Math.max(...inputs.map(i => layerOf(i, visiting)));
+        visiting.delete(node.id);
+        layers.set(node.id, layer);
+        return layer;
+    };
+
+    const columns: GraphNode[][] = [];
+    for (const node of nodes) {
+        node.layer = layerOf(node, new Set());
+        (columns[node.layer] = columns[node.layer] || []).push(node);
+    }
+
+    const rows = new Map<string, number>();
+    columns.forEach((column, layer) => {
+        if (layer > 0) {
+            const barycenter = (n: GraphNode) => {
+                const positions = n.inputs.map(i => rows.get(i.id)).filter((r): r is number => r !== undefined);
+                return positions.length > 0 ? positions.reduce((a, b) => a + b, 0) / positions.length : 0;
+            };
+            column.sort((a, b) => barycenter(a) - barycenter(b));
+        }
+        column.forEach((n, row) => rows.set(n.id, row));
+    });
+
+    const tallest = Math.max(0, ...columns.map(c => c.length));
+    const height = tallest * NODE_HEIGHT + Math.max(0, tallest - 1) * NODE_GAP;
+    columns.forEach((column, layer) => {
+        const columnHeight = column.length * NODE_HEIGHT + (column.length - 1) * NODE_GAP;
+        column.forEach((n, row) => {
+            n.x = MARGIN + layer * (NODE_WIDTH + LAYER_GAP);
+            n.y = MARGIN + (height - columnHeight) / 2 + row * (NODE_HEIGHT + NODE_GAP);
+        });
+    });
+
+    return {
+        nodes,
+        width: 2 * MARGIN + columns.length * NODE_WIDTH + Math.max(0, columns.length - 1) * LAYER_GAP,
+        height: 2 * MARGIN + height
+    };
+}
+
+// Vertex names on up to two lines of the box
+function nameLines(name: string): string[] {
+    const lines = [name.slice(0, NAME_LINE_LENGTH), name.slice(NAME_LINE_LENGTH, 2 * NAME_LINE_LENGTH)].filter(Boolean);
+    if (name.length > 2 * NAME_LINE_LENGTH) {
+        lines[1] = lines[1].slice(0, -1) + '…';
+    }
+    return lines;
+}
+
+// Canvas with the edges between the laid out vertices and the given vertex boxes on top
+function renderGraph(nodes: GraphNode[], width: number, height: number, vertexBoxes: string): string {
+    const esc = WebviewHelper.escapeHtml;
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const edges = nodes.flatMap(target => target.inputs.map(input => {
+        const source = byId.get(input.id);
+        if (!source) { return ''; }
+        const x1 = source.x + NODE_WIDTH, y1 = source.y + NODE_HEIGHT / 2;
+        const x2 = target.x, y2 = target.y + NODE_HEIGHT / 2;
+        const mx = (x1 + x2) / 2;
+        return `
+            <g class="edge">
+                <title>${esc(input.shipStrategy || 'Unknown')}${input.exchange ? ` (${esc(input.exchange)})` : ''}</title>
+                <path d="M ${x1} ${y1} C ${mx} ${y1}, ${mx} ${y2}, ${x2} ${y2}" marker-end="url(#arrow)"/>
+                <text x="${mx}" y="${(y1 + y2) / 2 - 5}" text-anchor="middle">${esc(input.shipStrategy || '')}</text>
+            </g>`;
+    })).join('');
+
+    return `
+    <div class="canvas">
+        <svg id="graph" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" data-width="${width}" data-height="${height}">
+            <defs>
+                <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z"/>
+                </marker>
+            </defs>
+            ${edges}
+            ${vertexBoxes}
+        </svg>
+    </div>`;
+}
+
+const GRAPH_STYLES = `
+        .canvas { overflow: auto; border: 1px solid var(--border); border-radius: 4px; }
+        svg { display: block; font-family: var(--vscode-font-family); }
+        .vertex rect { fill: var(--vscode-editorWidget-background); stroke-width: 2; }
+        .vertex .name { fill: var(--fg); font-weight: bold; font-size: 12px; }
+        .vertex .info { fill: var(--sub-fg); font-size: 11px; }
+        .edge path { fill: none; stroke: var(--sub-fg); stroke-width: 1.5; }
+        .edge text { fill: var(--sub-fg); font-size: 10px; }
+        marker path { fill: var(--sub-fg); }`;
+
+/**
+ * Graph of a plan that was not submitted yet (e.g. of a jar), vertices with name and
+ * parallelism only. Returns the canvas and the styles it needs.
+ */
+export function renderPlanPreview(plan: any): { html: string; styles: string } {
+    const esc = WebviewHelper.escapeHtml;
+    const { nodes, width, height } = layoutPlan(plan?.nodes || [], new Map());
+    const vertexBoxes = nodes.map(n => `
+            <g class="vertex">
+                <title>${esc(n.description || n.name)}</title>
+                <rect x="${n.x}" y="${n.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4" style="stroke: var(--border)"/>
+                ${nameLines(n.name).map((line, i) => `<text class="name" x="${n.x + 10}" y="${n.y + 18 + i * 15}">${esc(line)}</text>`).join('')}
+                <text class="info" x="${n.x + 10}" y="${n.y + 56}">Parallelism ${esc(n.parallelism ?? '-')}</text>
+            </g>`).join('');
+    return { html: renderGraph(nodes, width, height, vertexBoxes), styles: GRAPH_STYLES };
+}
+
+/**
+ * Dataflow graph of a job drawn from its plan: vertices with parallelism, live
+ * status, throughput and backpressure, edges labelled with their ship strategy.
+ * Selecting a vertex shows its flame graph.
+ */
+export class JobGraphPanel extends JobPanel {
+    // The plan of a submitted job never changes
+    private plan: any;
+    private selectedVertexId: string | undefined;
+    private flameGraphType: FlameGraphType = 'on_cpu';
+
+    static show(client: FlinkGatewayClient, jobId: string, jobName?: string) {
+        JobPanel.open('flinkJobGraph', 'Job', client, jobId, jobName,
+            panel => new JobGraphPanel(panel, client, jobId, jobName));
+    }
+
+    protected async handleMessage(message: any): Promise<void> {
+        if (message.command === 'selectVertex') {
+            this.selectedVertexId = message.id === this.selectedVertexId ? undefined : message.id;
+            await this.refresh();
+        } else if (message.command === 'flameGraphType') {
+            this.flameGraphType = message.type;
+            await this.refresh();
+        }
+    }
+
+    protected async render(job: any | null): Promise<string> {
+        if (!this.plan) {
+            this.plan = (await this.client.getJobPlan(this.jobId))?.plan || job?.plan;
+        }
+        if (!this.plan?.nodes?.length) {
+            return this.getMessageHtml('The job plan is not available. The JobManager may be offline or the job no longer known.', true);
+        }
+
+        const vertices = new Map<string, any>((job?.vertices || []).map((v: any) => [v.id, v]));
+        const [runtime, flameGraph] = await Promise.all([this.getRuntime(job), this.getFlameGraphHtml(job)]);
+        return this.getHtml(job, vertices, runtime, flameGraph);
+    }
+
+    // Flame graph section of the selected vertex, empty if none is selected
+    private async getFlameGraphHtml(job: any | null): Promise<string> {
+        if (!this.selectedVertexId) { return ''; }
+        const esc = WebviewHelper.escapeHtml;
+
+        let content: string;
+        if (job?.state !== 'RUNNING') {
+            content = '<div class="muted">Flame graphs are only sampled while the job runs.</div>';
+        } else {
+            try {
+                const flameGraph = await this.client.getVertexFlameGraph(this.jobId, this.selectedVertexId, this.flameGraphType);
+                content = flameGraph?.data?.value > 0
+                    ? `${renderFlameGraph(flameGraph.data)}<div class="muted">Sampled ${WebviewHelper.formatTimestamp(flameGraph.endTimestamp)} · hover a frame for its samples</div>`
+                    : '<div class="muted">Sampling... the flame graph appears with one of the next refreshes.</div>';
+            } catch (error: any) {
+                content = `<div class="error">Flame graph not available: ${esc(error.message)}</div>
+                    <div class="muted">Flame graphs need <code>rest.flamegraph.enabled: true</code> in the cluster configuration.</div>`;
+            }
+        }
+
+        const modes = FLAME_GRAPH_TYPES.map(([type, label]) => type === this.flameGraphType
+            ? `<span class="mode selected">${label}</span>`
+            : `<button class="link mode" onclick="post({ command: 'flameGraphType', type: '${type}' })">${label}</button>`).join('');
+        return `
+    <div class="section-title">Flame Graph · ${esc(this.vertexNames.get(this.selectedVertexId) || this.selectedVertexId)}
+        <span class="modes">${modes}</span>
+        <button class="link" onclick="selectVertex(${esc(JSON.stringify(this.selectedVertexId))})">Close</button>
+    </div>
+    ${content}`;
+    }
+
+    // Metrics are only reported by running tasks
+    private async getRuntime(job: any | null): Promise<Map<string, VertexRuntime>> {
+        const running = job?.state === 'RUNNING'
+            ? (job.vertices || []).filter((v: any) => v.status === 'RUNNING')
+            : [];
+        return new Map(await Promise.all(running.map(async (v: any): Promise<[string, VertexRuntime]> => {
+            const [backPressure, metrics] = await Promise.all([
+                this.client.getVertexBackPressure(this.jobId, v.id),
+                this.client.getVertexMetrics(this.jobId, v.id, VERTEX_METRICS)
+            ]);
+            return [v.id, { backPressure, metrics }];
+        })));
+    }
+
+    private getHtml(job: any | null, vertices: Map<string, any>, runtime: Map<string, VertexRuntime>, flameGraph: string): string {
+        const esc = WebviewHelper.escapeHtml;
+        const duration = WebviewHelper.formatDuration;
+        const bytes = WebviewHelper.formatBytes;
+        const count = WebviewHelper.formatCount;
+        const { nodes, width, height } = layoutPlan(this.plan.nodes, this.vertexNames);
+
+        // Time metrics are in ms per second; busy time is NaN where it cannot be measured
+        const percent = (msPerSecond: number | undefined) =>
+            Number.isFinite(msPerSecond) ? `${Math.round(msPerSecond! / 10)}%` : '-';
+        const rate = (perSecond: number | undefined) =>
+            Number.isFinite(perSecond) ? `${count(perSecond)}/s` : '-';
+        // 'backpressure-level' before Flink 1.13
+        const backPressureLevel = (r: VertexRuntime | undefined): string | undefined =>
+            (r?.backPressure?.backpressureLevel || r?.backPressure?.['backpressure-level'])?.toLowerCase();
+
+        const taskBar = (vertex: any, x: number, y: number) => {
+            const tasks = vertex?.tasks || {};
+            const total = TASK_STATES.reduce((sum, [state]) => sum + (tasks[state] || 0), 0);
+            if (total === 0) { return ''; }
+            const barWidth = NODE_WIDTH - 20;
+            let offset = 0;
+            return TASK_STATES
+                .filter(([state]) => tasks[state] > 0)
+                .map(([state, color]) => {
+                    const segment = barWidth * tasks[state] / total;
+                    const rect = `<rect x="${x + offset}" y="${y}" width="${segment}" height="4" style="fill: ${color}"><title>${tasks[state]} ${state}</title></rect>`;
+                    offset += segment;
+                    return rect;
+                }).join('');
+        };
+
+        const vertexBoxes = nodes.map(n => {
+            const vertex = vertices.get(n.id);
+            const status: string | undefined = vertex?.status;
+            const running = vertex?.tasks?.RUNNING;
+            const parallelism = vertex?.parallelism ?? n.parallelism;
+            const r = runtime.get(n.id);
+            const level = backPressureLevel(r);
+            const metrics = r?.metrics || {};
+            const live = r ? `
+                <text class="info bp-${esc(level)}" x="${n.x + 10}" y="${n.y + 72}">Busy ${percent(metrics.busyTimeMsPerSecond?.max)} · Backpressured ${percent(metrics.backPressuredTimeMsPerSecond?.max)}</text>
+                <text class="info" x="${n.x + 10}" y="${n.y + 88}">In ${rate(metrics.numRecordsInPerSecond?.sum)} · Out ${rate(metrics.numRecordsOutPerSecond?.sum)}</text>` : `
+                <text class="info" x="${n.x + 10}" y="${n.y + 72}">${vertex ? duration(vertex.duration) : ''}</text>
+                <text class="info" x="${n.x + 10}" y="${n.y + 88}">${vertex?.metrics ? `In ${count(vertex.metrics['read-records'])} · Out ${count(vertex.metrics['write-records'])} records` : ''}</text>`;
+            return `
+            <g class="vertex bp-${esc(level)} ${n.id === this.selectedVertexId ? 'selected' : ''}" onclick="selectVertex(${esc(JSON.stringify(n.id))})">
+                <title>${esc(n.description || n.name)}</title>
+                <rect x="${n.x}" y="${n.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="4" style="stroke: ${statusColor(status)}"/>
+                ${nameLines(n.name).map((line, i) => `<text class="name" x="${n.x + 10}" y="${n.y + 18 + i * 15}">${esc(line)}</text>`).join('')}
+                <text class="info" x="${n.x + 10}" y="${n.y + 56}">Parallelism ${esc(parallelism ?? '-')}${running !== undefined && status === 'RUNNING' && running < parallelism ? ` · ${running} running` : ''}</text>
+                <text class="info" x="${n.x + NODE_WIDTH - 10}" y="${n.y + 56}" text-anchor="end" style="fill: ${statusColor(status)}">${esc(status || '')}</text>
+                ${live}
+                ${taskBar(vertex, n.x + 10, n.y + NODE_HEIGHT - 8)}
+            </g>`;
+        }).join('');
+
+        const metricRows = nodes.map(n => {
+            const vertex = vertices.get(n.id);
+            const r = runtime.get(n.id);
+            const level = backPressureLevel(r);
+            const metrics = r?.metrics || {};
+            const totals = vertex?.metrics || {};
+            return `
+            <tr class="bp-${esc(level)}">
+                <td title="${esc(n.description || n.name)}">${esc(n.name)}</td>
+                <td class="status-${esc(String(vertex?.status || '').toLowerCase())}">${esc(vertex?.status || '-')}</td>
+                <td>${esc(vertex?.parallelism ?? n.parallelism)}</td>
+                <td class="bp-${esc(level)}">${esc(level?.toUpperCase() || '-')}</td>
+                <td>${percent(metrics.backPressuredTimeMsPerSecond?.max)}</td>
+                <td>${percent(metrics.busyTimeMsPerSecond?.max)}</td>
+                <td>${percent(metrics.idleTimeMsPerSecond?.avg)}</td>
+                <td>${rate(metrics.numRecordsInPerSecond?.sum)}</td>
+                <td>${rate(metrics.numRecordsOutPerSecond?.sum)}</td>
+                <td>${count(totals['read-records'])}</td>
+                <td>${count(totals['write-records'])}</td>
+                <td>${bytes(totals['read-bytes'])}</td>
+                <td>${bytes(totals['write-bytes'])}</td>
+                <td>${duration(vertex?.duration)}</td>
+            </tr>`;
+        }).join('');
+        const backPressured = nodes.filter(n => backPressureLevel(runtime.get(n.id)) === 'high').length;
+
+        const body = `
+    <div class="toolbar">
+        <span class="muted">${nodes.length} vertices${job?.duration !== undefined ? ` · ${duration(job.duration)}` : ''}${backPressured > 0 ? ` · <span class="bp-high">${backPressured} backpressured</span>` : ''} · select a vertex for its flame graph</span>
+        <button class="link" onclick="zoom(zoomLevel / 1.25)" title="Zoom Out">−</button>
+        <button class="link" onclick="zoom(1)" title="Actual Size">100%</button>
+        <button class="link" onclick="zoom(zoomLevel * 1.25)" title="Zoom In">+</button>
+    </div>
+    ${renderGraph(nodes, width, height, vertexBoxes)}
+    ${flameGraph}
+
+    <div class="section-title">Vertex Metrics <span class="muted">· ${runtime.size > 0 ? 'rates and time ratios over the last seconds, max/avg over subtasks' : 'live metrics are only reported while the job runs'}</span></div>
+    <table>
+        <thead><tr>
+            <th>Vertex</th><th>Status</th><th>Parallelism</th><th>Backpressure</th>
+            <th title="Max over subtasks">Backpressured</th><th title="Max over subtasks">Busy</th><th title="Average over subtasks">Idle</th>
+            <th>Records In</th><th>Records Out</th><th>Records Received</th><th>Records Sent</th><th>Bytes Received</th><th>Bytes Sent</th><th>Duration</th>
+        </tr></thead>
+        <tbody>${metricRows}</tbody>
+    </table>`;
+
+        const styles = `
+        .toolbar { display: flex; gap: 12px; align-items: baseline; margin-bottom: 8px; }
+        .toolbar .muted { margin-right: auto; }
+        ${GRAPH_STYLES}
+        .vertex { cursor: pointer; }
+        .vertex.selected rect { stroke-width: 4; }
+        .vertex.bp-low rect { fill: color-mix(in srgb, var(--vscode-charts-orange) 15%, var(--vscode-editorWidget-background)); }
+        .vertex.bp-high rect { fill: color-mix(in srgb, var(--vscode-errorForeground) 20%, var(--vscode-editorWidget-background)); }
+        .vertex .info.bp-low { fill: var(--vscode-charts-orange); }
+        .vertex .info.bp-high { fill: var(--vscode-errorForeground); font-weight: bold; }
+        td.bp-low { color: var(--vscode-charts-orange); }
+        .bp-high { color: var(--vscode-errorForeground); }
+        tr.bp-high { background: color-mix(in srgb, var(--vscode-errorForeground) 10%, transparent); }
+        .modes { margin: 0 10px; text-transform: none; font-weight: normal; }
+        .mode { margin-right: 8px; }
+        .mode.selected { color: var(--fg); font-weight: bold; }
+        .error { color: var(--vscode-errorForeground); }
+        .flamegraph { position: relative; border: 1px solid var(--border); margin-bottom: 4px; overflow: hidden; }
+        .frame { position: absolute; height: ${FLAME_ROW_HEIGHT - 1}px; box-sizing: border-box; padding: 0 3px; border-right: 1px solid var(--vscode-editor-background);
+            font-family: var(--vscode-editor-font-family); font-size: 11px; line-height: ${FLAME_ROW_HEIGHT - 1}px; color: #000; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }`;
+
+        // The zoom level is kept in the webview state so it survives re-rendering
+        const script = `
+        function selectVertex(id) { post({ command: 'selectVertex', id }); }
+        const graph = document.getElementById('graph');
+        let zoomLevel = (vscode.getState() || {}).zoom || 1;
+        function zoom(level) {
+            zoomLevel = Math.min(3, Math.max(0.25, level));
+            graph.setAttribute('width', graph.dataset.width * zoomLevel);
+            graph.setAttribute('height', graph.dataset.height * zoomLevel);
+            vscode.setState({ ...vscode.getState(), zoom: zoomLevel });
+        }
+        zoom(zoomLevel);`;
+
+        return this.getPageHtml(body, styles, script);
+    }
+}
@@ -0,0 +1,251 @@
+import * as vscode from 'vscode';
+import { FlinkGatewayClient } from './flinkClient';
+import { Logger } from './utils/logger';
+import { WebviewHelper } from './utils/webviewHelper';
+
+const TERMINAL_JOB_STATES = ['FINISHED', 'CANCELED', 'FAILED'];
+
+/**
+ * Base for webview panels that show one aspect of a job (checkpoints, exceptions, ...).
+ * Keeps one panel per view type and job, re-renders every 5 seconds while the panel
+ * is visible and the job has not reached a terminal state, and handles the
+ * messages shared by all panels ('refresh', 'copy').
+ */
+export abstract class JobPanel implements vscode.Disposable {
+    private static panels = new Map<string, JobPanel>();
+
+    private timer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+    private disposed = false;
+    protected jobName: string;
+    protected jobState: string | undefined;
+    // Operator names by vertex ID, from the job details
+    protected vertexNames = new Map<string, string>();
+
+    /**
+     * Reveals the panel of this type for the job, or creates it with `create`.
+     */
+    protected static open(
+        viewType: string,
+        title: string,
+        client: FlinkGatewayClient,
+        jobId: string,
+        jobName: string | undefined,
+        create: (panel: vscode.WebviewPanel) => JobPanel
+    ) {
+        const existing = JobPanel.panels.get(`${viewType}:${jobId}`);
+        if (existing) {
+            existing.client = client;
+            existing.panel.reveal();
+            existing.refresh();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            viewType,
+            `${title}: ${jobName || jobId}`,
+            vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        const jobPanel = create(panel);
+        JobPanel.panels.set(`${viewType}:${jobId}`, jobPanel);
+        jobPanel.refresh();
+        jobPanel.startPolling();
+    }
+
+    protected constructor(
+        protected readonly panel: vscode.WebviewPanel,
+        protected client: FlinkGatewayClient,
+        protected readonly jobId: string,
+        jobName?: string
+    ) {
+        this.jobName = jobName || jobId;
+        panel.webview.html = this.getMessageHtml('Loading...');
+
+        this.disposables.push(
+            panel.webview.onDidReceiveMessage(async message => {
+                try {
+                    switch (message.command) {
+                        case 'refresh':
+                            await this.refresh();
+                            break;
+                        case 'copy':
+                            await vscode.env.clipboard.writeText(message.text);
+                            vscode.window.showInformationMessage('Copied to clipboard');
+                            break;
+                        default:
+                            await this.handleMessage(message);
+                    }
+                } catch (error: any) {
+                    vscode.window.showErrorMessage(`Action failed: ${error.message}`);
+                }
+            }),
+            panel.onDidChangeViewState(() => {
+                if (panel.visible) {
+                    this.startPolling();
+                    this.refresh();
+                } else {
+                    this.stopPolling();
+                }
+            }),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    dispose() {
+        if (this.disposed) { return; }
+        this.disposed = true;
+        JobPanel.panels.delete(`${this.panel.viewType}:${this.jobId}`);
+        this.stopPolling();
+        this.disposables.forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+
+    /**
+     * Renders the panel content. `job` holds the job details (GET /jobs/{id}),
+     * null if the JobManager did not return them.
+     */
+    protected abstract render(job: any | null): Promise<string>;
+
+    // Messages other than 'refresh' and 'copy'
+    protected async handleMessage(_message: any): Promise<void> { }
+
+    private startPolling() {
+        this.stopPolling();
+        this.timer = setInterval(() => {
+            // Finished jobs no longer change
+            if (this.jobState && TERMINAL_JOB_STATES.includes(this.jobState)) {
+                this.stopPolling();
+                return;
+            }
+            this.refresh();
+        }, 5000);
+    }
+
+    private stopPolling() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    async refresh(): Promise<void> {
+        try {
+            const job = await this.client.getJobDetails(this.jobId);
+            if (job) {
+                this.jobName = job.name || this.jobName;
+                this.jobState = job.state;
+                for (const vertex of job.vertices || []) {
+                    this.vertexNames.set(vertex.id, vertex.name);
+                }
+            }
+
+            const html = await this.render(job);
+            // Re-assigning unchanged content would reload the page and reset inputs
+            if (!this.disposed && html !== this.panel.webview.html) {
+                this.panel.webview.html = html;
+            }
+        } catch (error: any) {
+            Logger.error(`[${this.panel.viewType}] Failed to load job ${this.jobId}:`, error.message);
+            if (!this.disposed) {
+                this.panel.webview.html = this.getMessageHtml(error.message || 'Unknown Error', true);
+            }
+        }
+    }
+
+    protected getMessageHtml(message: string, isError: boolean = false): string {
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <style>
+        body {
+            font-family: var(--vscode-font-family);
+            color: var(--vscode-editor-foreground);
+            padding: 20px;
+            text-align: center;
+        }
+        .error { color: var(--vscode-errorForeground); }
+    </style>
+</head>
+<body>
+    <div class="${isError ? 'error' : ''}">${WebviewHelper.escapeHtml(message)}</div>
+</body>
+</html>`;
+    }
+
+    /**
+     * Page with the shared styles, a header with job name, state and refresh button,
+     * and the script helpers `post(message)`, `copyText(text)`. `styles` and `script`
+     * are added for the specific panel. `<details>` with a `data-key` stay open across refreshes.
+     */
+    protected getPageHtml(body: string, styles: string = '', script: string = ''): string {
+        const esc = WebviewHelper.escapeHtml;
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        :root {
+            --border: var(--vscode-widget-border, var(--vscode-panel-border));
+            --fg: var(--vscode-editor-foreground);
+            --sub-fg: var(--vscode-descriptionForeground);
+            --accent: var(--vscode-textLink-foreground);
+        }
+        body {
+            font-family: var(--vscode-font-family);
+            font-size: var(--vscode-font-size);
+            color: var(--fg);
+            padding: 10px 20px;
+        }
+        .header { display: flex; align-items: baseline; gap: 10px; margin-bottom: 15px; border-bottom: 1px solid var(--border); padding-bottom: 5px; }
+        .title { font-weight: bold; font-size: 1.2em; }
+        .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(110px, 1fr)); gap: 8px; margin-bottom: 15px; }
+        .card { border: 1px solid var(--border); padding: 8px; border-radius: 4px; text-align: center; }
+        .card-label { color: var(--sub-fg); font-size: 0.8em; margin-bottom: 2px; }
+        .card-value { font-weight: bold; font-size: 1.3em; }
+        .section-title { font-weight: bold; margin: 15px 0 8px; font-size: 0.9em; text-transform: uppercase; color: var(--sub-fg); }
+        .kv { display: flex; justify-content: space-between; font-size: 0.9em; padding: 2px 0; border-bottom: 1px dashed var(--border); }
+        .k { color: var(--sub-fg); }
+        table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+        th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid var(--border); vertical-align: top; }
+        th { color: var(--sub-fg); font-weight: normal; }
+        .muted { color: var(--sub-fg); font-weight: normal; text-transform: none; }
+        .status-completed, .status-running, .status-finished { color: var(--vscode-charts-green); }
+        .status-failed, .status-failing { color: var(--vscode-errorForeground); }
+        .status-in-progress, .status-restarting { color: var(--accent); }
+        button.link { background: none; border: none; padding: 0; color: var(--accent); cursor: pointer; font: inherit; text-align: left; word-break: break-all; }
+        button.refresh { margin-left: auto; }
+        ${styles}
+    </style>
+</head>
+<body>
+    <div class="header">
+        <span class="title">${esc(this.jobName)}</span>
+        <span class="muted status-${esc((this.jobState || '').toLowerCase())}">${esc(this.jobState || '')}</span>
+        <button class="link refresh" onclick="post({ command: 'refresh' })">Refresh</button>
+    </div>
+    ${body}
+    <script>
+        const vscode = acquireVsCodeApi();
+        function post(message) { vscode.postMessage(message); }
+        function copyText(text) { post({ command: 'copy', text }); }
+        ${script}
+
+        // The page is re-rendered on every refresh, keep the scroll position and open <details data-key>
+        const openDetails = new Set((vscode.getState() || {}).openDetails || []);
+        document.querySelectorAll('details[data-key]').forEach(d => {
+            d.open = openDetails.has(d.dataset.key);
+            d.addEventListener('toggle', () => {
+                d.open ? openDetails.add(d.dataset.key) : openDetails.delete(d.dataset.key);
+                vscode.setState({ ...vscode.getState(), openDetails: [...openDetails] });
+            });
+        });
+        window.scrollTo(0, (vscode.getState() || {}).scrollY || 0);
+        window.addEventListener('scroll', () => vscode.setState({ ...vscode.getState(), scrollY: window.scrollY }));
+    </script>
+</body>
+</html>`;
+    }
+}
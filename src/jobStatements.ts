@@ -0,0 +1,29 @@
+import * as vscode from 'vscode';
+
+const STORAGE_KEY = 'flinkJobStatements';
+const MAX_ENTRIES = 200;
+
+export interface JobStatementRecord {
+    jobId: string;
+    statement: string;
+    // URI of the notebook the statement ran in
+    notebook: string;
+    timestamp: number;
+}
+
+/**
+ * SQL statements that submitted jobs from a notebook, newest first, so a job can be
+ * traced back to the statement that launched it.
+ */
+export class JobStatementHistory {
+    constructor(private state: vscode.Memento) { }
+
+    get(jobId: string): JobStatementRecord | undefined {
+        return this.state.get<JobStatementRecord[]>(STORAGE_KEY, []).find(r => r.jobId === jobId);
+    }
+
+    async add(record: JobStatementRecord): Promise<void> {
+        const records = [record, ...this.state.get<JobStatementRecord[]>(STORAGE_KEY, []).filter(r => r.jobId !== record.jobId)];
+        await this.state.update(STORAGE_KEY, records.slice(0, MAX_ENTRIES));
+    }
+}
@@ -1,6 +1,8 @@
 import * as vscode from 'vscode';
 import { FlinkGatewayClient } from './flinkClient';
 import { Logger } from './utils/logger';
+import { SavepointHistory } from './savepoints';
+import { editResourceRequirements } from './rescale';
 
 interface JobData {
     jobId: string;
@@ -17,13 +19,13 @@ export class FlinkJobsProvider implements vscode.TreeDataProvider<JobTreeItem>,
     private jobs: JobData[] = [];
     private timer: NodeJS.Timeout | undefined;
 
-    constructor(gatewayUrl: string, jobManagerUrl: string, private mode: 'RUNNING' | 'HISTORY') {
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+    constructor(client: FlinkGatewayClient, private mode: 'RUNNING' | 'HISTORY', private savepointHistory?: SavepointHistory) {
+        this.client = client;
         this.startPolling();
     }
 
-    updateConnection(gatewayUrl: string, jobManagerUrl: string) {
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+    updateClient(client: FlinkGatewayClient) {
+        this.client = client;
         this.refresh();
     }
 
@@ -159,6 +161,125 @@ export class FlinkJobsProvider implements vscode.TreeDataProvider<JobTreeItem>,
             setTimeout(() => this.refresh(), 1000);
         }
     }
+
+    public async triggerSavepoint(item: JobTreeItem): Promise<void> {
+        if (!item.jobData) { return; }
+
+        const targetDirectory = await this.promptSavepointDirectory();
+        if (targetDirectory === undefined) { return; }
+
+        await this.runSavepoint(item.jobData, `Savepoint for "${item.jobData.jobName}"`,
+            () => this.client.triggerSavepoint(item.jobData.jobId, targetDirectory));
+    }
+
+    public async stopWithSavepoint(item: JobTreeItem): Promise<void> {
+        if (!item.jobData) { return; }
+
+        const answer = await vscode.window.showWarningMessage(
+            `Stop job "${item.jobData.jobName}" with a savepoint?`,
+            { modal: true, detail: 'Draining emits a final watermark so all event-time windows fire before the job stops.' },
+            'Stop', 'Drain and Stop'
+        );
+        if (!answer) { return; }
+
+        const targetDirectory = await this.promptSavepointDirectory();
+        if (targetDirectory === undefined) { return; }
+
+        const drain = answer === 'Drain and Stop';
+        await this.runSavepoint(item.jobData, `Stopping "${item.jobData.jobName}" with savepoint`,
+            () => this.client.stopWithSavepoint(item.jobData.jobId, targetDirectory, drain));
+        this.refresh();
+    }
+
+    /**
+     * Edits the parallelism bounds of a job running on the adaptive scheduler, submits
+     * them and waits until the job runs again with the new parallelism.
+     */
+    public async rescaleJob(item: JobTreeItem): Promise<void> {
+        if (!item.jobData) { return; }
+        const { jobId, jobName } = item.jobData;
+
+        const [job, requirements] = await Promise.all([
+            this.client.getJobDetails(jobId),
+            this.client.getResourceRequirements(jobId)
+        ]);
+        if (!job || !requirements) {
+            vscode.window.showErrorMessage(`Cannot read the parallelism bounds of "${jobName}". Rescaling needs the adaptive scheduler (jobmanager.scheduler: adaptive).`);
+            return;
+        }
+
+        const edited = await editResourceRequirements(job, requirements);
+        if (!edited) { return; }
+
+        try {
+            const rescaled = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Rescaling "${jobName}"`,
+                cancellable: true
+            }, async (progress, token) => {
+                await this.client.setResourceRequirements(jobId, edited);
+                this.refresh();
+                return this.client.waitForRescale(jobId, edited, token,
+                    state => progress.report({ message: state === 'RUNNING' ? 'Waiting for the new parallelism' : state }));
+            });
+
+            const before = new Map<string, number>((job.vertices || []).map((v: any) => [v.id, v.parallelism]));
+            const changed = (rescaled.vertices || []).filter((v: any) => before.get(v.id) !== v.parallelism);
+            changed.forEach((v: any) => Logger.info(`[Flink Jobs] ${v.name}: parallelism ${before.get(v.id)} -> ${v.parallelism}`));
+            vscode.window.showInformationMessage(changed.length > 0
+                ? `"${jobName}" is running again, ${changed.length} vertex(es) rescaled.`
+                : `"${jobName}" keeps its parallelism, which is within the new bounds. It scales up when free slots become available.`);
+            this.refresh();
+        } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                // Only stops waiting, the scheduler keeps applying the new bounds
+                vscode.window.showInformationMessage(`Stopped waiting for "${jobName}". The new parallelism bounds stay in effect.`);
+                return;
+            }
+            Logger.error(`[Flink Jobs] Rescaling job ${jobId} failed:`, error.message);
+            vscode.window.showErrorMessage(`Failed to rescale "${jobName}": ${error.message}`);
+        }
+    }
+
+    // Empty string means the cluster's state.savepoints.dir, undefined means cancelled
+    private async promptSavepointDirectory(): Promise<string | undefined> {
+        const configured = vscode.workspace.getConfiguration('flink').get<string>('savepointDirectory', '');
+        const value = await vscode.window.showInputBox({
+            prompt: 'Savepoint target directory (leave empty to use state.savepoints.dir of the cluster)',
+            placeHolder: 's3://bucket/savepoints',
+            value: configured
+        });
+        return value?.trim();
+    }
+
+    // Triggers a savepoint, waits for it with a progress notification and reports the path
+    private async runSavepoint(job: JobData, title: string, trigger: () => Promise<string>): Promise<void> {
+        try {
+            const location = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title,
+                cancellable: true
+            }, async (_progress, token) => {
+                const triggerId = await trigger();
+                return this.client.waitForSavepoint(job.jobId, triggerId, token);
+            });
+
+            Logger.info(`[Flink Jobs] Savepoint for job ${job.jobId} completed: ${location}`);
+            await this.savepointHistory?.add({ jobId: job.jobId, jobName: job.jobName, location, timestamp: Date.now() });
+            const action = await vscode.window.showInformationMessage(`Savepoint completed: ${location}`, 'Copy Path');
+            if (action === 'Copy Path') {
+                await vscode.env.clipboard.writeText(location);
+            }
+        } catch (error: any) {
+            if (error instanceof vscode.CancellationError) {
+                // Only stops waiting, the savepoint itself continues on the cluster
+                vscode.window.showInformationMessage('Stopped waiting for the savepoint. It may still complete on the cluster.');
+                return;
+            }
+            Logger.error(`[Flink Jobs] Savepoint for job ${job.jobId} failed:`, error.message);
+            vscode.window.showErrorMessage(error.message);
+        }
+    }
 }
 
 class JobTreeItem extends vscode.TreeItem {
@@ -177,14 +298,24 @@ class JobTreeItem extends vscode.TreeItem {
 
         this.tooltip = `Job ID: ${jobData.jobId}\nStatus: ${jobData.status}\nStart Time: ${jobData.startTime}`;
         this.description = jobData.status; // Show status next to name
-        this.contextValue = jobData.status === 'RUNNING' ? 'flink-job-running' : 'flink-job-history';
+        if (jobData.status === 'OFFLINE') {
+            this.contextValue = 'flink-job-offline';
+        } else {
+            this.contextValue = jobData.status === 'RUNNING' ? 'flink-job-running' : 'flink-job-history';
+        }
 
-        // Command to open details
-        if (jobData.status !== 'OFFLINE') {
+        // Failed jobs open their exceptions, others the job details
+        if (jobData.status === 'FAILED') {
+            this.command = {
+                command: 'flinkJobs.showExceptions',
+                title: 'Show Exceptions',
+                arguments: [this]
+            };
+        } else if (jobData.status !== 'OFFLINE') {
             this.command = {
                 command: 'flink.showJobDetail',
                 title: 'Show Job Details',
-                arguments: [jobData.jobId, jobData.status]
+                arguments: [jobData.jobId, jobData.jobName]
             };
         }
     }
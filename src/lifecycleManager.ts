@@ -0,0 +1,63 @@
+import { FlinkGatewayClient } from './flinkClient';
+import { Logger } from './utils/logger';
+
+/**
+ * Tracks the operations opened on gateway sessions and releases them once they
+ * are no longer needed. The gateway keeps result buffers for every operation and
+ * every session until they are closed or expire, which leaks memory on shared gateways.
+ * All closes are best effort: failures are logged, never thrown.
+ */
+export class GatewayLifecycleManager {
+    // Open operation handles per session handle
+    private operations = new Map<string, Set<string>>();
+
+    trackOperation(sessionHandle: string, operationHandle: string) {
+        let open = this.operations.get(sessionHandle);
+        if (!open) {
+            open = new Set();
+            this.operations.set(sessionHandle, open);
+        }
+        open.add(operationHandle);
+    }
+
+    getOpenOperations(sessionHandle: string): string[] {
+        return [...(this.operations.get(sessionHandle) || [])];
+    }
+
+    /**
+     * Closes a tracked operation (DELETE .../operations/{h}/close). Untracked
+     * operations were already closed (e.g. by a cancel) and are skipped.
+     */
+    async closeOperation(client: FlinkGatewayClient, sessionHandle: string, operationHandle: string): Promise<void> {
+        const open = this.operations.get(sessionHandle);
+        if (!open?.delete(operationHandle)) {
+            return;
+        }
+        if (open.size === 0) {
+            this.operations.delete(sessionHandle);
+        }
+
+        try {
+            await client.closeOperation(sessionHandle, operationHandle);
+            Logger.info(`[Lifecycle] Closed operation ${operationHandle}`);
+        } catch (e: any) {
+            // Already closed or the session expired, nothing left to release
+            Logger.warn(`[Lifecycle] Failed to close operation ${operationHandle}: ${e.message}`);
+        }
+    }
+
+    /**
+     * Closes a session on the gateway (DELETE /sessions/{h}). The gateway closes
+     * the session's remaining operations along with it.
+     */
+    async closeSession(client: FlinkGatewayClient, sessionHandle: string): Promise<void> {
+        this.operations.delete(sessionHandle);
+
+        try {
+            await client.closeSession(sessionHandle);
+            Logger.info(`[Lifecycle] Closed session ${sessionHandle}`);
+        } catch (e: any) {
+            Logger.warn(`[Lifecycle] Failed to close session ${sessionHandle}: ${e.message}`);
+        }
+    }
+}
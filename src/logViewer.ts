@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { FlinkGatewayClient } from './flinkClient';
+import { Logger } from './utils/logger';
+
+export const LOG_SCHEME = 'flink-log';
+
+const FOLLOW_INTERVAL_MS = 3000;
+// A followed log that does not change is re-read less and less often, down to once a minute
+const MAX_FOLLOW_INTERVAL_MS = 60000;
+// Logs are read whole; only the tail is shown so huge logs do not freeze the editor.
+// Larger logs are not followed, each refresh would download all of it again.
+const MAX_LOG_LENGTH = 5 * 1024 * 1024;
+const LOG_LEVELS = ['TRACE', 'DEBUG', 'INFO', 'WARN', 'ERROR'];
+// Start of a log4j entry: "2024-01-01 12:00:00,000 INFO  org.apache.flink..."
+const ENTRY_START = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}/;
+const ENTRY_LEVEL = /\b(TRACE|DEBUG|INFO|WARN|WARNING|ERROR|FATAL)\b/;
+
+// Where a log document comes from: the TaskManager (undefined for the JobManager) and file
+interface LogSource {
+    taskManagerId?: string;
+    file: string;
+}
+
+// A followed document: when it is read next, and what it looked like when last read
+interface FollowState {
+    uri: vscode.Uri;
+    intervalMs: number;
+    dueAt: number;
+    fingerprint?: string;
+}
+
+/**
+ * Read-only documents with the logs and stdout of the JobManager and TaskManagers
+ * (flink-log:/<title>?tm=<id>&file=<file>). Followed documents are re-read every
+ * few seconds (less often while they do not change) and scrolled to the end;
+ * a minimum log level hides lower entries.
+ */
+export class FlinkLogProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    // Followed documents by URI string
+    private following = new Map<string, FollowState>();
+    private minLevels = new Map<string, string>();
+    private timer: NodeJS.Timeout | undefined;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private client: FlinkGatewayClient) {
+        this.disposables.push(
+            this._onDidChange,
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (this.following.has(e.document.uri.toString())) {
+                    this.revealEnd(e.document.uri);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(doc => {
+                if (doc.uri.scheme === LOG_SCHEME) {
+                    this.following.delete(doc.uri.toString());
+                    this.minLevels.delete(doc.uri.toString());
+                    this.updatePolling();
+                }
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateContext())
+        );
+    }
+
+    updateClient(client: FlinkGatewayClient) {
+        this.client = client;
+    }
+
+    dispose() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+    }
+
+    static uriFor(taskManagerId: string | undefined, file: string): vscode.Uri {
+        const owner = taskManagerId ? `TaskManager ${taskManagerId}` : 'JobManager';
+        const name = file === 'log' ? 'Log' : file === 'stdout' ? 'Stdout' : file;
+        const query = new URLSearchParams({ file, ...(taskManagerId ? { tm: taskManagerId } : {}) });
+        // The path is only the editor title, the source is in the query
+        const title = `${owner} - ${name}`.replace(/\//g, '_');
+        return vscode.Uri.from({ scheme: LOG_SCHEME, path: `/${title}`, query: query.toString() });
+    }
+
+    private static sourceOf(uri: vscode.Uri): LogSource {
+        const query = new URLSearchParams(uri.query);
+        return { taskManagerId: query.get('tm') || undefined, file: query.get('file') || 'log' };
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const { taskManagerId, file } = FlinkLogProvider.sourceOf(uri);
+        let content: string;
+        try {
+            content = await this.client.getLog(taskManagerId, file);
+        } catch (error: any) {
+            Logger.warn(`[Logs] Failed to load ${uri.path}: ${error.message}`);
+            return `Failed to load the log: ${error.message}`;
+        }
+
+        let header = '';
+        const followed = this.following.get(uri.toString());
+        if (content.length > MAX_LOG_LENGTH) {
+            const start = content.indexOf('\n', content.length - MAX_LOG_LENGTH) + 1;
+            header = `[... ${Math.round(start / 1024)} KB truncated, showing the end of the log ...]\n`;
+            content = content.slice(start);
+            if (followed) {
+                header += `[Following stopped: the log is larger than ${MAX_LOG_LENGTH / 1024 / 1024} MB. Use Refresh to read it again.]\n`;
+                this.following.delete(uri.toString());
+                this.updatePolling();
+                this.updateContext();
+            }
+        } else if (followed) {
+            this.scheduleNext(followed, `${content.length}:${content.slice(-1024)}`);
+        }
+
+        const minLevel = this.minLevels.get(uri.toString());
+        return header + (minLevel ? this.filterByLevel(content, minLevel) : content);
+    }
+
+    // Keeps entries at or above the level; continuation lines (stack traces) belong to their entry
+    private filterByLevel(content: string, minLevel: string): string {
+        const min = LOG_LEVELS.indexOf(minLevel);
+        let keep = true;
+        return content.split('\n').filter(line => {
+            if (ENTRY_START.test(line)) {
+                const level = ENTRY_LEVEL.exec(line)?.[1];
+                const normalized = level === 'WARNING' ? 'WARN' : level === 'FATAL' ? 'ERROR' : level;
+                keep = !normalized || LOG_LEVELS.indexOf(normalized) >= min;
+            }
+            return keep;
+        }).join('\n');
+    }
+
+    /**
+     * Asks which log of a TaskManager (or the JobManager) to open: the main log,
+     * stdout or one of the files in its log directory.
+     */
+    async pickAndOpen(taskManagerId?: string): Promise<void> {
+        const files = await this.client.getLogFiles(taskManagerId);
+        const items: (vscode.QuickPickItem & { file: string })[] = [
+            { label: '$(output) Log', description: 'Main log', file: 'log' },
+            { label: '$(terminal) Stdout', description: 'Output of print sinks and System.out', file: 'stdout' },
+            ...(files || [])
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(f => ({ label: `$(file) ${f.name}`, description: `${Math.round((f.size || 0) / 1024)} KB`, file: f.name }))
+        ];
+        const selected = await vscode.window.showQuickPick(items, {
+            title: taskManagerId ? `TaskManager ${taskManagerId}` : 'JobManager',
+            placeHolder: files ? 'Select the log to open' : 'Log files could not be listed, select the main log or stdout'
+        });
+        if (selected) {
+            await this.open(taskManagerId, selected.file);
+        }
+    }
+
+    async open(taskManagerId: string | undefined, file: string): Promise<void> {
+        let doc = await vscode.workspace.openTextDocument(FlinkLogProvider.uriFor(taskManagerId, file));
+        doc = await vscode.languages.setTextDocumentLanguage(doc, 'log');
+        await vscode.window.showTextDocument(doc, { preview: false });
+        this.revealEnd(doc.uri);
+        this.updateContext();
+    }
+
+    setFollowing(uri: vscode.Uri, follow: boolean) {
+        if (follow) {
+            this.following.set(uri.toString(), { uri, intervalMs: FOLLOW_INTERVAL_MS, dueAt: Date.now() + FOLLOW_INTERVAL_MS });
+            this.refresh(uri);
+        } else {
+            this.following.delete(uri.toString());
+        }
+        this.updatePolling();
+        this.updateContext();
+    }
+
+    refresh(uri: vscode.Uri) {
+        this._onDidChange.fire(uri);
+    }
+
+    async pickLevel(uri: vscode.Uri): Promise<void> {
+        const current = this.minLevels.get(uri.toString());
+        const selected = await vscode.window.showQuickPick(
+            [{ label: 'All', level: undefined }, ...[...LOG_LEVELS].reverse().map(level => ({ label: level, level }))]
+                .map(item => ({ ...item, description: item.level === current ? 'Current' : item.level ? 'and above' : '' })),
+            { title: 'Filter by Log Level', placeHolder: 'Show entries at or above this level' }
+        );
+        if (!selected) { return; }
+        if (selected.level) {
+            this.minLevels.set(uri.toString(), selected.level);
+        } else {
+            this.minLevels.delete(uri.toString());
+        }
+        this.refresh(uri);
+    }
+
+    // Backs off while the log stays the same, back to the base interval once it changes
+    private scheduleNext(state: FollowState, fingerprint: string) {
+        const unchanged = state.fingerprint === fingerprint;
+        state.intervalMs = unchanged ? Math.min(state.intervalMs * 2, MAX_FOLLOW_INTERVAL_MS) : FOLLOW_INTERVAL_MS;
+        state.dueAt = Date.now() + state.intervalMs;
+        state.fingerprint = fingerprint;
+    }
+
+    private updatePolling() {
+        if (this.following.size > 0 && !this.timer) {
+            this.timer = setInterval(() => {
+                const now = Date.now();
+                this.following.forEach(state => {
+                    if (state.dueAt <= now) {
+                        // Not due again before the read completes and reschedules it
+                        state.dueAt = now + state.intervalMs;
+                        this.refresh(state.uri);
+                    }
+                });
+            }, FOLLOW_INTERVAL_MS);
+        } else if (this.following.size === 0 && this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private revealEnd(uri: vscode.Uri) {
+        for (const editor of vscode.window.visibleTextEditors) {
+            if (editor.document.uri.toString() === uri.toString()) {
+                const end = new vscode.Position(editor.document.lineCount - 1, 0);
+                editor.revealRange(new vscode.Range(end, end), vscode.TextEditorRevealType.Default);
+            }
+        }
+    }
+
+    // Drives the Follow / Stop Following buttons in the editor title
+    private updateContext() {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        vscode.commands.executeCommand('setContext', 'flink.logFollowing', !!uri && this.following.has(uri.toString()));
+    }
+}
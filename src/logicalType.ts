@@ -0,0 +1,354 @@
+// Shared by the extension host and the notebook renderer, keep free of vscode imports.
+
+/**
+ * Typed model of Flink's LogicalType as serialized by the SQL Gateway in result
+ * column descriptors, e.g. {"type":"DECIMAL","nullable":true,"precision":10,"scale":2}.
+ */
+
+interface BaseLogicalType {
+    nullable: boolean;
+}
+
+export interface CharacterStringType extends BaseLogicalType {
+    type: 'CHAR' | 'VARCHAR';
+    length?: number;
+}
+
+export interface BinaryStringType extends BaseLogicalType {
+    type: 'BINARY' | 'VARBINARY';
+    length?: number;
+}
+
+export interface DecimalType extends BaseLogicalType {
+    type: 'DECIMAL';
+    precision: number;
+    scale: number;
+}
+
+export interface NumericType extends BaseLogicalType {
+    type: 'TINYINT' | 'SMALLINT' | 'INTEGER' | 'BIGINT' | 'FLOAT' | 'DOUBLE';
+}
+
+export interface BooleanType extends BaseLogicalType {
+    type: 'BOOLEAN';
+}
+
+export interface DateType extends BaseLogicalType {
+    type: 'DATE';
+}
+
+export interface TimeType extends BaseLogicalType {
+    type: 'TIME_WITHOUT_TIME_ZONE' | 'TIMESTAMP_WITHOUT_TIME_ZONE' | 'TIMESTAMP_WITH_TIME_ZONE' | 'TIMESTAMP_WITH_LOCAL_TIME_ZONE';
+    precision?: number;
+}
+
+export interface IntervalType extends BaseLogicalType {
+    type: 'INTERVAL_YEAR_MONTH' | 'INTERVAL_DAY_TIME';
+}
+
+export interface CollectionType extends BaseLogicalType {
+    type: 'ARRAY' | 'MULTISET';
+    elementType: LogicalType;
+}
+
+export interface MapType extends BaseLogicalType {
+    type: 'MAP';
+    keyType: LogicalType;
+    valueType: LogicalType;
+}
+
+export interface RowField {
+    name: string;
+    fieldType: LogicalType;
+    description?: string;
+}
+
+export interface RowType extends BaseLogicalType {
+    type: 'ROW';
+    fields: RowField[];
+}
+
+// RAW, STRUCTURED_TYPE, NULL, SYMBOL and anything this model does not know yet
+export interface OtherType extends BaseLogicalType {
+    type: 'OTHER';
+    name: string;
+}
+
+export type LogicalType =
+    | CharacterStringType
+    | BinaryStringType
+    | DecimalType
+    | NumericType
+    | BooleanType
+    | DateType
+    | TimeType
+    | IntervalType
+    | CollectionType
+    | MapType
+    | RowType
+    | OtherType;
+
+const SIMPLE_ROOTS = [
+    'TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'FLOAT', 'DOUBLE', 'BOOLEAN', 'DATE',
+    'INTERVAL_YEAR_MONTH', 'INTERVAL_DAY_TIME'
+];
+
+const TIME_ROOTS = [
+    'TIME_WITHOUT_TIME_ZONE', 'TIMESTAMP_WITHOUT_TIME_ZONE', 'TIMESTAMP_WITH_TIME_ZONE', 'TIMESTAMP_WITH_LOCAL_TIME_ZONE'
+];
+
+// SQL names (as in DDL or older gateways' string descriptors) -> type roots
+const SQL_NAME_ALIASES: Record<string, string> = {
+    INT: 'INTEGER',
+    STRING: 'VARCHAR',
+    BYTES: 'VARBINARY',
+    DEC: 'DECIMAL',
+    NUMERIC: 'DECIMAL',
+    'DOUBLE PRECISION': 'DOUBLE',
+    TIME: 'TIME_WITHOUT_TIME_ZONE',
+    TIMESTAMP: 'TIMESTAMP_WITHOUT_TIME_ZONE',
+    TIMESTAMP_LTZ: 'TIMESTAMP_WITH_LOCAL_TIME_ZONE'
+};
+
+// --- Parsing ---
+
+/**
+ * Parses a column's logicalType descriptor. Accepts the JSON object form used by the
+ * gateway and the SQL string form ("DECIMAL(10, 2) NOT NULL"); never throws.
+ */
+export function parseLogicalType(descriptor: unknown): LogicalType {
+    if (typeof descriptor === 'string') {
+        return parseSqlType(descriptor);
+    }
+    if (!descriptor || typeof descriptor !== 'object') {
+        return { type: 'OTHER', name: 'UNKNOWN', nullable: true };
+    }
+
+    const raw = descriptor as Record<string, any>;
+    const root = String(raw.type || 'UNKNOWN').toUpperCase();
+    const nullable = raw.nullable !== false;
+
+    switch (root) {
+        case 'CHAR':
+        case 'VARCHAR':
+        case 'BINARY':
+        case 'VARBINARY':
+            return { type: root, nullable, length: numberOrUndefined(raw.length) } as CharacterStringType | BinaryStringType;
+        case 'DECIMAL':
+            return { type: 'DECIMAL', nullable, precision: numberOrUndefined(raw.precision) ?? 10, scale: numberOrUndefined(raw.scale) ?? 0 };
+        case 'ARRAY':
+        case 'MULTISET':
+            return { type: root, nullable, elementType: parseLogicalType(raw.elementType) };
+        case 'MAP':
+            return { type: 'MAP', nullable, keyType: parseLogicalType(raw.keyType), valueType: parseLogicalType(raw.valueType) };
+        case 'ROW':
+            return {
+                type: 'ROW',
+                nullable,
+                // Unnamed fields get Flink's default names f0, f1, ...
+                fields: (Array.isArray(raw.fields) ? raw.fields : []).map((f: any, i: number) => ({
+                    name: f?.name !== undefined && f?.name !== null ? String(f.name) : `f${i}`,
+                    fieldType: parseLogicalType(f?.fieldType),
+                    description: f?.description || undefined
+                }))
+            };
+    }
+
+    if (TIME_ROOTS.includes(root)) {
+        return { type: root, nullable, precision: numberOrUndefined(raw.precision) } as TimeType;
+    }
+    if (SIMPLE_ROOTS.includes(root)) {
+        return { type: root, nullable } as LogicalType;
+    }
+    return { type: 'OTHER', name: root, nullable };
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+    return typeof value === 'number' ? value : undefined;
+}
+
+function parseSqlType(text: string): LogicalType {
+    let sql = text.trim();
+    let nullable = true;
+    const notNull = /\s+NOT\s+NULL$/i;
+    if (notNull.test(sql)) {
+        nullable = false;
+        sql = sql.replace(notNull, '');
+    }
+
+    // Composite types: ARRAY<...>, MULTISET<...>, MAP<..., ...>, ROW<name type, ...>
+    const composite = sql.match(/^(ARRAY|MULTISET|MAP|ROW)\s*<(.*)>$/is);
+    if (composite) {
+        const root = composite[1].toUpperCase();
+        const args = splitTopLevel(composite[2]);
+        if (root === 'MAP') {
+            return { type: 'MAP', nullable, keyType: parseSqlType(args[0] || ''), valueType: parseSqlType(args[1] || '') };
+        }
+        if (root === 'ROW') {
+            return {
+                type: 'ROW',
+                nullable,
+                fields: args.map(arg => {
+                    // `quoted name` (`` escapes a backtick) or a plain identifier, then the type
+                    const field = arg.match(/^(?:`((?:[^`]|``)+)`|([^`\s]+))\s+(.*)$/s);
+                    return field
+                        ? { name: field[1] !== undefined ? field[1].replace(/``/g, '`') : field[2], fieldType: parseSqlType(field[3]) }
+                        : { name: arg, fieldType: parseSqlType('') };
+                })
+            };
+        }
+        return { type: root as 'ARRAY' | 'MULTISET', nullable, elementType: parseSqlType(args[0] || '') };
+    }
+
+    // Simple types: NAME, NAME(p), NAME(p, s), TIMESTAMP(p) WITH LOCAL TIME ZONE
+    const simple = sql.match(/^([A-Z_ ]+?)\s*(?:\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*(WITH(?:OUT)? (?:LOCAL )?TIME ZONE)?$/i);
+    if (!simple) {
+        return { type: 'OTHER', name: sql || 'UNKNOWN', nullable };
+    }
+
+    let root = simple[1].trim().toUpperCase();
+    root = SQL_NAME_ALIASES[root] || root;
+    const zone = simple[4]?.toUpperCase();
+    if (zone && root === 'TIMESTAMP_WITHOUT_TIME_ZONE') {
+        root = zone.includes('LOCAL') ? 'TIMESTAMP_WITH_LOCAL_TIME_ZONE' : zone.startsWith('WITHOUT') ? root : 'TIMESTAMP_WITH_TIME_ZONE';
+    }
+
+    const first = simple[2] !== undefined ? parseInt(simple[2], 10) : undefined;
+    const second = simple[3] !== undefined ? parseInt(simple[3], 10) : undefined;
+
+    // Reuse the descriptor parser so both forms produce identical models
+    return parseLogicalType({
+        type: root,
+        nullable,
+        length: first,
+        precision: first,
+        scale: second
+    });
+}
+
+// Splits "a, ROW<b INT, c INT>, d" on commas that are not nested in <> or ()
+function splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of text) {
+        if (ch === '<' || ch === '(') { depth++; }
+        if (ch === '>' || ch === ')') { depth--; }
+        if (ch === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    if (current.trim()) { parts.push(current.trim()); }
+    return parts;
+}
+
+// --- Formatting ---
+
+const SQL_NAMES: Record<string, string> = {
+    TIME_WITHOUT_TIME_ZONE: 'TIME',
+    TIMESTAMP_WITHOUT_TIME_ZONE: 'TIMESTAMP',
+    TIMESTAMP_WITH_TIME_ZONE: 'TIMESTAMP_TZ',
+    TIMESTAMP_WITH_LOCAL_TIME_ZONE: 'TIMESTAMP_LTZ',
+    INTERVAL_YEAR_MONTH: 'INTERVAL YEAR TO MONTH',
+    INTERVAL_DAY_TIME: 'INTERVAL DAY TO SECOND'
+};
+
+/**
+ * SQL representation, e.g. "DECIMAL(10, 2) NOT NULL", "TIMESTAMP_LTZ(3)", "ROW<id INT, tags ARRAY<STRING>>".
+ */
+export function formatLogicalType(type: LogicalType): string {
+    let sql: string;
+    switch (type.type) {
+        case 'CHAR':
+        case 'BINARY':
+            sql = type.length !== undefined ? `${type.type}(${type.length})` : type.type;
+            break;
+        case 'VARCHAR':
+        case 'VARBINARY': {
+            // VARCHAR(2147483647) is STRING, VARBINARY(2147483647) is BYTES
+            const max = type.length === undefined || type.length === 2147483647;
+            sql = max ? (type.type === 'VARCHAR' ? 'STRING' : 'BYTES') : `${type.type}(${type.length})`;
+            break;
+        }
+        case 'DECIMAL':
+            sql = `DECIMAL(${type.precision}, ${type.scale})`;
+            break;
+        case 'INTEGER':
+            sql = 'INT';
+            break;
+        case 'TIME_WITHOUT_TIME_ZONE':
+        case 'TIMESTAMP_WITHOUT_TIME_ZONE':
+        case 'TIMESTAMP_WITH_TIME_ZONE':
+        case 'TIMESTAMP_WITH_LOCAL_TIME_ZONE':
+            sql = type.precision !== undefined ? `${SQL_NAMES[type.type]}(${type.precision})` : SQL_NAMES[type.type];
+            break;
+        case 'ARRAY':
+        case 'MULTISET':
+            sql = `${type.type}<${formatLogicalType(type.elementType)}>`;
+            break;
+        case 'MAP':
+            sql = `MAP<${formatLogicalType(type.keyType)}, ${formatLogicalType(type.valueType)}>`;
+            break;
+        case 'ROW':
+            sql = `ROW<${type.fields.map(f => `${formatFieldName(f.name)} ${formatLogicalType(f.fieldType)}`).join(', ')}>`;
+            break;
+        case 'OTHER':
+            sql = type.name;
+            break;
+        default:
+            sql = SQL_NAMES[type.type] || type.type;
+    }
+    return type.nullable ? sql : `${sql} NOT NULL`;
+}
+
+// Field names that are not plain identifiers are quoted, as in DDL
+function formatFieldName(name: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, '``')}\``;
+}
+
+// --- Values ---
+
+export function isNumericType(type: LogicalType): boolean {
+    return ['TINYINT', 'SMALLINT', 'INTEGER', 'BIGINT', 'FLOAT', 'DOUBLE', 'DECIMAL'].includes(type.type);
+}
+
+export function isTemporalType(type: LogicalType): boolean {
+    return type.type === 'DATE' || TIME_ROOTS.includes(type.type);
+}
+
+/**
+ * Orders two values of a column: numbers numerically (DECIMAL arrives as a string),
+ * dates and timestamps chronologically, everything else by its display text. NULLs first.
+ */
+export function compareLogicalValues(type: LogicalType, a: any, b: any): number {
+    if (a === b) { return 0; }
+    if (a === null || a === undefined) { return -1; }
+    if (b === null || b === undefined) { return 1; }
+
+    if (isNumericType(type)) {
+        const diff = Number(a) - Number(b);
+        if (!isNaN(diff) && diff !== 0) { return diff < 0 ? -1 : 1; }
+    } else if (type.type === 'BOOLEAN') {
+        return a === b ? 0 : a ? 1 : -1;
+    } else if (isTemporalType(type) && type.type !== 'TIME_WITHOUT_TIME_ZONE') {
+        // "2024-01-01 12:00:00.123" and ISO forms; sub-millisecond digits fall through to the text compare
+        const diff = Date.parse(String(a).replace(' ', 'T')) - Date.parse(String(b).replace(' ', 'T'));
+        if (!isNaN(diff) && diff !== 0) { return diff < 0 ? -1 : 1; }
+    }
+
+    const textA = formatLogicalValue(type, a);
+    const textB = formatLogicalValue(type, b);
+    return textA === textB ? 0 : textA > textB ? 1 : -1;
+}
+
+/**
+ * Display text of a value. Composite values (ROW, ARRAY, MAP, MULTISET) are rendered as JSON.
+ */
+export function formatLogicalValue(_type: LogicalType | undefined, value: any): string {
+    if (value === null || value === undefined) { return ''; }
+    if (typeof value === 'object') { return JSON.stringify(value); }
+    return String(value);
+}
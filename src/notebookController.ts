@@ -1,8 +1,21 @@
 import * as vscode from 'vscode';
-import { FlinkGatewayClient } from './flinkClient';
+import { FlinkGatewayClient, isSessionNotFoundError, OperationStatus } from './flinkClient';
 import { SessionManager, SessionInfo } from './sessionManager';
 import { ConnectionManager } from './connectionManager';
 import { Logger } from './utils/logger';
+import { isTransientError } from './transport';
+import { ChangelogMaterializer } from './changelog';
+import { formatLogicalType } from './logicalType';
+import { JobStatementHistory } from './jobStatements';
+
+// Operation states after which no (more) results will arrive
+const FAILED_OPERATION_STATES: OperationStatus[] = ['ERROR', 'CANCELED', 'CLOSED', 'TIMEOUT'];
+// Streaming results never end: the materialized table keeps the newest rows, like the SQL client's table mode
+const MAX_STREAMING_TABLE_ROWS = 10000;
+// Changelog rows kept in the cell output, and result pages read before the operation is left open.
+// Also applied to results not flagged as streaming: v1 gateways never flag them, so an unbounded SELECT reads like a batch.
+const MAX_STREAMING_ROWS = 1000;
+const MAX_RESULT_POLLS = 1000;
 
 export class FlinkNotebookController implements vscode.Disposable {
     readonly controllerId: string;
@@ -12,10 +25,15 @@ export class FlinkNotebookController implements vscode.Disposable {
 
     private readonly _controller: vscode.NotebookController;
     private _executionOrder = 0;
+    // Notebooks that use this controller as their kernel
+    private readonly _selectedNotebooks = new Set<vscode.NotebookDocument>();
 
     private readonly _onDidExecute = new vscode.EventEmitter<void>();
     public readonly onDidExecute = this._onDidExecute.event;
 
+    // Statements that submitted jobs, shown in the job's configuration
+    private readonly jobStatements: JobStatementHistory;
+
     constructor(
         private context: vscode.ExtensionContext,
         private connectionManager: ConnectionManager,
@@ -26,6 +44,7 @@ export class FlinkNotebookController implements vscode.Disposable {
         const conn = connectionManager.getConnection(session.connectionId);
         const connName = conn?.name || 'Unknown';
 
+        this.jobStatements = new JobStatementHistory(context.globalState);
         this.controllerId = `flink-sql-notebook-${session.handle}`;
         this.label = `Flink: ${session.name} @ ${connName}`;
 
@@ -38,6 +57,13 @@ export class FlinkNotebookController implements vscode.Disposable {
         this._controller.supportedLanguages = this.supportedLanguages;
         this._controller.supportsExecutionOrder = true;
         this._controller.executeHandler = this._execute.bind(this);
+        this._controller.onDidChangeSelectedNotebooks(({ notebook, selected }) => {
+            if (selected) {
+                this._selectedNotebooks.add(notebook);
+            } else {
+                this._selectedNotebooks.delete(notebook);
+            }
+        });
 
         // Show connection info in description
         this._controller.description = conn?.gatewayUrl || 'No connection';
@@ -61,6 +87,52 @@ export class FlinkNotebookController implements vscode.Disposable {
         return client;
     }
 
+    // Shown in the cell while the statement has not produced results yet
+    private createPhaseOutput(status: OperationStatus, since: number): vscode.NotebookCellOutput {
+        const seconds = Math.round((Date.now() - since) / 1000);
+        return new vscode.NotebookCellOutput([
+            vscode.NotebookCellOutputItem.text(`Operation ${status} (${seconds}s)...`, 'text/plain')
+        ]);
+    }
+
+    /**
+     * Throws if the operation will not produce (more) results. For ERROR, fetching
+     * the results surfaces the server-side exception with its stack trace.
+     */
+    private async assertOperationAlive(client: FlinkGatewayClient, sessionHandle: string, statementHandle: string, status: OperationStatus): Promise<void> {
+        if (!FAILED_OPERATION_STATES.includes(status)) {
+            return;
+        }
+        if (status === 'ERROR') {
+            await client.fetchResults(sessionHandle, statementHandle, 0);
+        }
+        throw new Error(`Flink operation ended with status ${status}.`);
+    }
+
+    // Status after the results were fully read, undefined if the gateway no longer reports it
+    private async getFinalPhase(client: FlinkGatewayClient, sessionHandle: string, statementHandle: string): Promise<OperationStatus | undefined> {
+        try {
+            return await client.getOperationStatus(sessionHandle, statementHandle);
+        } catch {
+            return undefined;
+        }
+    }
+
+    isSelectedFor(notebook: vscode.NotebookDocument): boolean {
+        return this._selectedNotebooks.has(notebook);
+    }
+
+    /**
+     * Runs cells with extra configuration applied to each of their statements only
+     * (e.g. execution.savepoint.path). The session configuration is left unchanged.
+     */
+    async executeWithConfig(cells: vscode.NotebookCell[], executionConfig: Record<string, string>): Promise<void> {
+        Logger.info(`[Notebook] Executing ${cells.length} cell(s) with execution config:`, executionConfig);
+        for (const cell of cells) {
+            await this._doExecution(cell, cell.notebook, executionConfig);
+        }
+    }
+
     private async _execute(
         cells: vscode.NotebookCell[],
         _notebook: vscode.NotebookDocument,
@@ -71,7 +143,7 @@ export class FlinkNotebookController implements vscode.Disposable {
         }
     }
 
-    private async _doExecution(cell: vscode.NotebookCell, notebook: vscode.NotebookDocument): Promise<void> {
+    private async _doExecution(cell: vscode.NotebookCell, notebook: vscode.NotebookDocument, executionConfig?: Record<string, string>): Promise<void> {
         const execution = this._controller.createNotebookCellExecution(cell);
         execution.executionOrder = ++this._executionOrder;
         execution.start(Date.now());
@@ -100,47 +172,64 @@ export class FlinkNotebookController implements vscode.Disposable {
             await execution.clearOutput();
 
             for (const statement of statements) {
+                let statementHandle: string | undefined;
+                // Left open when we stop reading before the results are exhausted
+                let keepOperationOpen = false;
                 try {
-                    let statementHandle: string;
                     try {
-                        const result = await client.executeStatement(sessionHandle, statement);
+                        const result = await client.executeStatement(sessionHandle, statement, executionConfig);
                         statementHandle = result.statementHandle;
                     } catch (e: any) {
                         // Check for session invalid error
-                        if (e.message && (e.message.includes('Session') && e.message.includes('does not exist'))) {
+                        if (isSessionNotFoundError(e)) {
                             Logger.info('[Notebook] Session invalid during execution. Attempting auto-recovery...');
                             sessionHandle = await this.sessionManager.validateOrRecoverSession(sessionHandle);
                             // Retry execution with new handle
-                            const result = await client.executeStatement(sessionHandle, statement);
+                            const result = await client.executeStatement(sessionHandle, statement, executionConfig);
                             statementHandle = result.statementHandle;
                             Logger.info(`[Notebook] Recovered to new session: ${sessionHandle}`);
                         } else {
                             throw e;
                         }
                     }
+                    this.sessionManager.lifecycle.trackOperation(sessionHandle, statementHandle);
+                    await this.sessionManager.touchSession(sessionHandle);
 
-                    // Wait for results to be ready (poll for NOT_READY -> PAYLOAD/EOS)
+                    // Wait for results to be ready. The operation status tells which phase the
+                    // statement is in; a long job submission stays RUNNING and is not a timeout.
                     let resultData = await client.fetchResults(sessionHandle, statementHandle, 0);
-                    let readyRetries = 0;
-                    const maxReadyRetries = 60;
+                    let phase: OperationStatus | undefined;
+                    const waitStart = Date.now();
 
-                    while (resultData.resultType === 'NOT_READY' && readyRetries < maxReadyRetries) {
+                    while (resultData.resultType === 'NOT_READY') {
                         if (execution.token.isCancellationRequested) {
                             Logger.info('[Flink] Cancellation requested while waiting for results');
-                            break;
+                            await client.cancelOperation(sessionHandle, statementHandle);
+                            throw new Error('Execution cancelled while waiting for results.');
                         }
-                        await new Promise(r => setTimeout(r, 500));
-                        resultData = await client.fetchResults(sessionHandle, statementHandle, 0);
-                        readyRetries++;
-                        Logger.info(`[Flink] Waiting for results... (attempt ${readyRetries}, type: ${resultData.resultType})`);
-                    }
 
-                    if (resultData.resultType === 'NOT_READY') {
-                        throw new Error('Query timed out waiting for results. The job may still be running in the background.');
+                        const status = await client.getOperationStatus(sessionHandle, statementHandle);
+                        if (status !== phase) {
+                            phase = status;
+                            Logger.info(`[Flink] Operation ${statementHandle} is ${status}`);
+                            await execution.replaceOutput([this.createPhaseOutput(status, waitStart)]);
+                        }
+                        await this.assertOperationAlive(client, sessionHandle, statementHandle, status);
+
+                        await new Promise(r => setTimeout(r, 500));
+                        resultData = await client.fetchResults(sessionHandle, statementHandle, resultData.nextResultToken ?? 0);
                     }
 
+                    // allResults is the raw changelog (capped for streaming), the materializer holds the current table
                     let allResults: any[] = [...resultData.results];
                     const columns = resultData.columns;
+                    const isStreaming = resultData.isQueryResult === true;
+                    const materializer = new ChangelogMaterializer(isStreaming ? MAX_STREAMING_TABLE_ROWS : undefined);
+                    materializer.apply(resultData.results);
+                    const jobId = resultData.jobID;
+                    if (jobId) {
+                        await this.jobStatements.add({ jobId, statement, notebook: notebook.uri.toString(), timestamp: Date.now() });
+                    }
 
                     const createOutput = (rows: any[], streamingInfo?: { isStreaming: boolean; isComplete?: boolean; offset?: number }) => {
                         const items: vscode.NotebookCellOutputItem[] = [];
@@ -149,46 +238,62 @@ export class FlinkNotebookController implements vscode.Disposable {
                             schema: {
                                 fields: columns.map(c => ({
                                     name: c.name,
-                                    type: (typeof c.logicalType === 'string' ? c.logicalType : c.logicalType?.type || 'string').toLowerCase()
+                                    type: formatLogicalType(c.logicalType),
+                                    logicalType: c.logicalType,
+                                    comment: c.comment
                                 }))
                             },
-                            data: rows,
-                            metadata: streamingInfo
+                            data: materializer.getRows(),
+                            // Raw stream with RowKinds, for the renderer's changelog view
+                            changelog: isStreaming || materializer.hasRetractions ? rows : undefined,
+                            metadata: { ...streamingInfo, phase }
                         };
 
                         items.push(vscode.NotebookCellOutputItem.json(dataResource, 'application/x-flink-table'));
                         return new vscode.NotebookCellOutput(items);
                     };
 
-                    const isStreaming = resultData.isQueryResult === true;
-                    const jobId = resultData.jobID;
-
                     await execution.replaceOutput([createOutput(allResults, isStreaming ? { isStreaming: true, isComplete: false } : undefined)]);
 
                     // For non-streaming batch queries, poll until EOS
                     if (!isStreaming && resultData.resultType !== 'EOS') {
                         Logger.info(`[Flink] Non-streaming query with resultType=${resultData.resultType}, polling for completion...`);
                         let token = resultData.nextResultToken ?? 1;
-                        let batchRetries = 0;
-                        const maxBatchRetries = 120;
+                        // Only polls that returned results count, waiting for a running job is not limited
+                        let pollCount = 0;
+                        let consecutiveErrors = 0;
+                        let totalRows = allResults.length;
+                        const changelogOffset = () => ({ isStreaming: false, offset: Math.max(0, totalRows - allResults.length) });
 
-                        while (resultData.resultType !== 'EOS' && batchRetries < maxBatchRetries) {
+                        while (resultData.resultType !== 'EOS') {
+                            if (pollCount >= MAX_RESULT_POLLS) {
+                                Logger.warn(`[Flink] Stopped reading results after ${MAX_RESULT_POLLS} pages, the operation is left open`);
+                                keepOperationOpen = true;
+                                break;
+                            }
                             if (execution.token.isCancellationRequested) {
                                 Logger.info('[Flink] Cancellation requested during batch polling');
                                 await client.cancelOperation(sessionHandle, statementHandle, jobId);
+                                phase = 'CANCELED';
                                 break;
                             }
                             await new Promise(r => setTimeout(r, 500));
 
                             try {
                                 const nextData = await client.fetchResults(sessionHandle, statementHandle, token);
+                                consecutiveErrors = 0;
 
                                 if (nextData.results && nextData.results.length > 0) {
                                     allResults.push(...nextData.results);
-                                    await execution.replaceOutput([createOutput(allResults)]);
+                                    materializer.apply(nextData.results);
+                                    totalRows += nextData.results.length;
+                                    if (allResults.length > MAX_STREAMING_ROWS) {
+                                        allResults = allResults.slice(-MAX_STREAMING_ROWS);
+                                    }
+                                    await execution.replaceOutput([createOutput(allResults, changelogOffset())]);
                                 }
 
-                                Logger.info(`[Flink Batch Poll ${batchRetries}] Token: ${token}, ResultType: ${nextData.resultType}, Results: ${nextData.results.length}`);
+                                Logger.info(`[Flink Batch Poll ${pollCount}] Token: ${token}, ResultType: ${nextData.resultType}, Results: ${nextData.results.length}`);
 
                                 if (nextData.resultType === 'EOS') {
                                     Logger.info('[Flink] Batch query completed (EOS)');
@@ -196,37 +301,53 @@ export class FlinkNotebookController implements vscode.Disposable {
                                     break;
                                 }
 
-                                if (nextData.resultType === 'ERROR') {
-                                    throw new Error('Flink batch operation failed with ERROR status.');
+                                // No data yet: the job is still running (or failed)
+                                if (nextData.resultType === 'NOT_READY') {
+                                    const status = await client.getOperationStatus(sessionHandle, statementHandle);
+                                    if (status !== phase) {
+                                        phase = status;
+                                        await execution.replaceOutput([createOutput(allResults, changelogOffset())]);
+                                    }
+                                    await this.assertOperationAlive(client, sessionHandle, statementHandle, status);
+                                } else {
+                                    pollCount++;
                                 }
 
                                 token = nextData.nextResultToken ?? token + 1;
                                 resultData = nextData;
                             } catch (pollError: any) {
+                                // The transport already retried transient failures; errors reported by Flink are final
+                                if (!isTransientError(pollError)) {
+                                    throw pollError;
+                                }
                                 Logger.error('[Flink Batch Poll Error]', pollError.message);
-                                batchRetries++;
-                                if (batchRetries >= 5) {
+                                consecutiveErrors++;
+                                if (consecutiveErrors >= 5) {
                                     throw pollError;
                                 }
                             }
-
-                            batchRetries++;
                         }
 
+                        if (resultData.resultType === 'EOS') {
+                            phase = await this.getFinalPhase(client, sessionHandle, statementHandle);
+                        }
+                        await execution.replaceOutput([createOutput(allResults, changelogOffset())]);
+                    } else if (!isStreaming) {
+                        phase = await this.getFinalPhase(client, sessionHandle, statementHandle);
                         await execution.replaceOutput([createOutput(allResults)]);
                     }
 
                     if (isStreaming) {
-                        let currentToken = 0;
-                        const maxPolls = 1000;
+                        let currentToken = resultData.nextResultToken ?? 1;
                         let pollCount = 0;
-                        let consecutiveEmpty = 0;
+                        let consecutiveErrors = 0;
                         let totalRows = allResults.length;
 
-                        while (pollCount < maxPolls) {
+                        while (pollCount < MAX_RESULT_POLLS) {
                             if (execution.token.isCancellationRequested) {
                                 Logger.info('[Flink] Cancellation requested, cancelling job...');
                                 await client.cancelOperation(sessionHandle, statementHandle, jobId);
+                                phase = 'CANCELED';
                                 await execution.replaceOutput([createOutput(allResults, { isStreaming: false, isComplete: true, offset: Math.max(0, totalRows - allResults.length) })]);
                                 break;
                             }
@@ -234,55 +355,55 @@ export class FlinkNotebookController implements vscode.Disposable {
                             await new Promise(r => setTimeout(r, 1000));
 
                             try {
-                                currentToken++;
                                 const nextData = await client.fetchResults(sessionHandle, statementHandle, currentToken);
+                                currentToken = nextData.nextResultToken ?? currentToken + 1;
 
                                 Logger.info(`[Flink Poll ${pollCount}] Token: ${currentToken}, ResultType: ${nextData.resultType}, Results: ${nextData.results.length}`);
 
                                 const status = nextData.resultType;
 
-                                if (status === 'ERROR') {
-                                    throw new Error('Flink Operation failed with ERROR status.');
+                                // An idle stream looks the same as a dead one, ask the gateway
+                                if (status === 'NOT_READY') {
+                                    const operationStatus = await client.getOperationStatus(sessionHandle, statementHandle);
+                                    if (operationStatus === 'CANCELED') {
+                                        Logger.info('[Flink] Operation CANCELED.');
+                                        phase = operationStatus;
+                                        break;
+                                    }
+                                    await this.assertOperationAlive(client, sessionHandle, statementHandle, operationStatus);
                                 }
 
-                                if (status === 'CANCELED') {
-                                    Logger.info('[Flink] Operation CANCELED.');
-                                    break;
-                                }
+                                consecutiveErrors = 0;
 
                                 if (nextData.results.length > 0) {
-                                    consecutiveEmpty = 0;
                                     allResults.push(...nextData.results);
+                                    materializer.apply(nextData.results);
                                     totalRows += nextData.results.length;
 
-                                    const maxStreamingRows = 1000;
-                                    if (allResults.length > maxStreamingRows) {
-                                        allResults = allResults.slice(-maxStreamingRows);
+                                    if (allResults.length > MAX_STREAMING_ROWS) {
+                                        allResults = allResults.slice(-MAX_STREAMING_ROWS);
                                     }
 
                                     const offset = Math.max(0, totalRows - allResults.length);
                                     await execution.replaceOutput([createOutput(allResults, { isStreaming: true, isComplete: false, offset })]);
-                                } else {
-                                    consecutiveEmpty++;
                                 }
 
-                                if (status === 'EOS' || status === 'FINISHED') {
+                                if (status === 'EOS') {
                                     Logger.info('[Flink] Operation FINISHED/EOS.');
+                                    phase = await this.getFinalPhase(client, sessionHandle, statementHandle);
                                     break;
                                 }
 
                             } catch (pollError: any) {
-                                const errStr = (pollError.toString() + JSON.stringify(pollError)).toLowerCase();
-                                if (errStr.includes('tablealreadyexistexception')) {
-                                    throw pollError;
-                                }
-                                if (errStr.includes('noresourceavailableexception')) {
+                                // The transport already retried transient failures; errors reported by Flink are final
+                                if (!isTransientError(pollError)) {
                                     throw pollError;
                                 }
 
+                                // Keep the stream alive across a few dropped connections
                                 Logger.error('[Flink Poll Error]', pollError.message);
-                                consecutiveEmpty++;
-                                if (consecutiveEmpty >= 5) {
+                                consecutiveErrors++;
+                                if (consecutiveErrors >= 5) {
                                     throw pollError;
                                 }
                             }
@@ -290,7 +411,11 @@ export class FlinkNotebookController implements vscode.Disposable {
                             pollCount++;
                         }
 
-                        await execution.replaceOutput([createOutput(allResults, { isStreaming: false, isComplete: true })]);
+                        if (pollCount >= MAX_RESULT_POLLS) {
+                            keepOperationOpen = true;
+                        }
+
+                        await execution.replaceOutput([createOutput(allResults, { isStreaming: false, isComplete: true, offset: Math.max(0, totalRows - allResults.length) })]);
                     }
 
                 } catch (stmtError: any) {
@@ -320,6 +445,10 @@ export class FlinkNotebookController implements vscode.Disposable {
                         ]);
                     }
                     throw stmtError;
+                } finally {
+                    if (statementHandle && !keepOperationOpen) {
+                        await this.sessionManager.lifecycle.closeOperation(client, sessionHandle, statementHandle);
+                    }
                 }
             }
 
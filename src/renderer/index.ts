@@ -1,6 +1,8 @@
 
 
 import type { ActivationFunction } from 'vscode-notebook-renderer';
+import { ROW_KIND_SHORT, rowKind } from '../changelog';
+import { compareLogicalValues, formatLogicalType, formatLogicalValue, LogicalType, parseLogicalType } from '../logicalType';
 
 // State to persist per output element
 interface RenderState {
@@ -13,44 +15,75 @@ interface RenderState {
     sortColumn: string | null;
     sortDirection: 'asc' | 'desc';
     filterText: string;
+    // Materialized table or raw changelog stream (only offered when the output carries one)
+    view: 'table' | 'changelog';
 }
 
 const stateMap = new WeakMap<any, RenderState>();
 
+// Outputs saved by older versions only carry the type name
+function columnType(column: any): LogicalType {
+    return column.logicalType || parseLogicalType(column.type);
+}
+
+function rowFields(row: any): any[] {
+    return row.fields || (Array.isArray(row) ? row : []);
+}
+
+function filterRows(rows: any[], columns: any[], filterText: string): any[] {
+    const lowerFilter = filterText.toLowerCase();
+    const types = columns.map(columnType);
+    return rows.filter(row => rowFields(row).some((f: any, i: number) =>
+        formatLogicalValue(types[i], f).toLowerCase().includes(lowerFilter)));
+}
+
+// Rows and columns of the selected view. The changelog view prepends the RowKind as an "op" column.
+function getViewData(state: RenderState): { rows: any[]; columns: any[]; offset: number } {
+    const json = state.latestJson;
+    const columns = json.schema.fields || [];
+    const meta = json.metadata || {};
+    const offset = typeof meta.offset === 'number' ? meta.offset : 0;
+
+    if (state.view === 'changelog' && json.changelog) {
+        return {
+            rows: json.changelog.map((row: any) => ({ fields: [ROW_KIND_SHORT[rowKind(row)], ...(row.fields || [])] })),
+            columns: [{ name: 'op', type: 'CHAR(2) NOT NULL', logicalType: { type: 'CHAR', nullable: false, length: 2 } }, ...columns],
+            offset
+        };
+    }
+    // The materialized table has no stream offset
+    return { rows: json.data || [], columns, offset: json.changelog ? 0 : offset };
+}
+
 // Helper to render the view based on state
 function render(element: any) {
     const state = stateMap.get(element);
     if (!state || !state.latestJson) { return; }
 
     const json = state.latestJson;
-    let rows = [...(json.data || [])]; // Copy for mutation
-    const columns = json.schema.fields || [];
+    const view = getViewData(state);
+    let rows = [...view.rows]; // Copy for mutation
+    const columns = view.columns;
     const meta = json.metadata || {};
-    const globalOffset = typeof meta.offset === 'number' ? meta.offset : 0;
+    const globalOffset = view.offset;
 
     // 1. Filter
     if (state.filterText) {
-        const lowerFilter = state.filterText.toLowerCase();
-        rows = rows.filter(row => {
-            const fields = row.fields || (Array.isArray(row) ? row : []);
-            return fields.some((f: any) => String(f).toLowerCase().includes(lowerFilter));
-        });
+        rows = filterRows(rows, columns, state.filterText);
     }
 
-    // 2. Sort
+    // 2. Sort (by the column's logical type: DECIMAL numerically, TIMESTAMP_LTZ chronologically, ...)
     if (state.sortColumn) {
         const colIdx = columns.findIndex((c: any) => c.name === state.sortColumn);
         if (colIdx !== -1) {
+            const type = columnType(columns[colIdx]);
             rows.sort((a, b) => {
-                const valA = (a.fields || a)[colIdx];
-                const valB = (b.fields || b)[colIdx];
-
-                if (valA === valB) { return 0; }
-                const result = valA > valB ? 1 : -1;
+                const result = compareLogicalValues(type, (a.fields || a)[colIdx], (b.fields || b)[colIdx]);
                 return state.sortDirection === 'asc' ? result : -result;
             });
         }
     }
+    const types = columns.map(columnType);
 
     // Auto-scroll logic (only if not paused and autoScroll enabled)
     const totalRows = rows.length;
@@ -103,6 +136,7 @@ function render(element: any) {
                     .btn-group button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 8px; cursor: pointer; margin-right: 2px; }
                     .btn-group button:hover { background: var(--vscode-button-secondaryHoverBackground); }
                     .btn-group button:disabled { opacity: 0.5; cursor: not-allowed; }
+                    .btn-group button.active { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
                     
                     .filter-box { 
                         background: var(--vscode-input-background); 
@@ -120,6 +154,7 @@ function render(element: any) {
                     .badge { padding: 2px 6px; border-radius: 3px; font-weight: bold; font-size: 10px; margin-right: 5px; }
                     .badge-live { background-color: var(--vscode-button-background); color: white; }
                     .badge-finished { background-color: var(--vscode-testing-iconPassed); color: white; }
+                    .badge-failed { background-color: var(--vscode-testing-iconFailed); color: white; }
                     .badge-paused { background-color: var(--vscode-inputValidation-warningBackground); color: var(--vscode-inputValidation-warningForeground); border: 1px solid var(--vscode-inputValidation-warningBorder); }
                     
                     .sort-icon { font-size: 9px; margin-left: 4px; }
@@ -132,7 +167,8 @@ function render(element: any) {
         if (state.sortColumn === c.name) {
             sortIndicator = state.sortDirection === 'asc' ? ' ▲' : ' ▼';
         }
-        return `<th data-col="${c.name}">${c.name}<span class="sort-icon">${sortIndicator}</span></th>`;
+        const tooltip = formatLogicalType(columnType(c)) + (c.comment ? `\n${c.comment}` : '');
+        return `<th data-col="${c.name}" title="${tooltip.replace(/"/g, '&quot;')}">${c.name}<span class="sort-icon">${sortIndicator}</span></th>`;
     }).join('');
     const headerRow = `<tr><th>#</th>${headerCells}</tr>`;
 
@@ -148,7 +184,7 @@ function render(element: any) {
         else if (Array.isArray(row)) { cellData = row; }
         else { cellData = columns.map((c: any) => row[c.name]); }
 
-        const cells = cellData.map((v: any) => `<td>${v === null || v === undefined ? '' : String(v)}</td>`).join('');
+        const cells = cellData.map((v: any, idx: number) => `<td>${formatLogicalValue(types[idx], v)}</td>`).join('');
         return `<tr><td>${displayIndex}</td>${cells}</tr>`;
     }).join('');
 
@@ -163,6 +199,15 @@ function render(element: any) {
         statusBadge = meta.isComplete
             ? '<span class="badge badge-finished">● FINISHED</span>'
             : '<span class="badge badge-live">● LIVE</span>';
+    } else if (meta.phase) {
+        // Operation status reported by the gateway (RUNNING, FINISHED, ERROR, ...)
+        const phaseClass = meta.phase === 'FINISHED'
+            ? 'badge-finished'
+            : ['ERROR', 'CANCELED', 'CLOSED', 'TIMEOUT'].includes(meta.phase) ? 'badge-failed' : 'badge-live';
+        statusBadge = `<span class="badge ${phaseClass}">● ${meta.phase}</span>`;
+    }
+    if (meta.isStreaming && meta.phase === 'CANCELED') {
+        statusBadge = '<span class="badge badge-failed">● CANCELED</span>';
     }
     if (state.isPaused) {
         statusBadge += '<span class="badge badge-paused">⏸ PAUSED</span>';
@@ -176,14 +221,22 @@ function render(element: any) {
 
     // Determine info text
     let infoText = `Total: ${totalRows}`;
-    if (json.data && json.data.length !== totalRows) {
-        infoText += ` (Filtered from ${json.data.length})`;
+    if (view.rows.length !== totalRows) {
+        infoText += ` (Filtered from ${view.rows.length})`;
     } else if (globalOffset > 0) {
         infoText += ` (Offset: ${globalOffset})`;
     }
 
+    const viewToggleHtml = json.changelog
+        ? `<div class="btn-group">
+            <button class="btn-view-table ${state.view === 'table' ? 'active' : ''}" title="Current result with updates and deletes applied">Table</button>
+            <button class="btn-view-changelog ${state.view === 'changelog' ? 'active' : ''}" title="Raw changelog stream with RowKind">Changelog</button>
+        </div>`
+        : '';
+
     const controls = `
     <div class="toolbar">
+        ${viewToggleHtml}
         <div class="btn-group">
             ${pauseButtonHtml}
             <button class="btn-first" ${cPage === 1 ? 'disabled' : ''}>&lt;&lt;</button>
@@ -246,22 +299,21 @@ function downloadCSV(state: RenderState) {
 
     // Use filtered/sorted rows logic if we want "What You See Is What You Get" export
     // But usually people want raw unique data. Let's filter but maybe not page.
-    let rows = [...json.data];
+    const view = getViewData(state);
+    let rows = [...view.rows];
     if (state.filterText) {
-        const lowerFilter = state.filterText.toLowerCase();
-        rows = rows.filter(row => {
-            const fields = row.fields || (Array.isArray(row) ? row : []);
-            return fields.some((f: any) => String(f).toLowerCase().includes(lowerFilter));
-        });
+        rows = filterRows(rows, view.columns, state.filterText);
     }
 
-    const cols = json.schema.fields.map((f: any) => f.name);
+    const cols = view.columns.map((f: any) => f.name);
+    const types = view.columns.map(columnType);
     const header = cols.join(',');
     const body = rows.map((r: any) => {
         const fields = r.fields || r;
-        return fields.map((v: any) => {
+        return fields.map((v: any, i: number) => {
             if (v === null || v === undefined) { return ''; }
-            const s = String(v).replace(/"/g, '""');
+            // Composite values are exported as JSON rather than "[object Object]"
+            const s = formatLogicalValue(types[i], v).replace(/"/g, '""');
             if (s.includes(',') || s.includes('"') || s.includes('\n')) {
                 return `"${s}"`;
             }
@@ -284,7 +336,8 @@ function downloadCSV(state: RenderState) {
 function copyJSON(state: RenderState) {
     const json = state.latestJson;
     if (!json || !json.data) { return; }
-    navigator.clipboard.writeText(JSON.stringify(json.data, null, 2));
+    const rows = state.view === 'changelog' && json.changelog ? json.changelog : json.data;
+    navigator.clipboard.writeText(JSON.stringify(rows, null, 2));
 }
 
 export const activate: ActivationFunction = (context) => {
@@ -308,7 +361,8 @@ export const activate: ActivationFunction = (context) => {
                     latestJson: json,
                     sortColumn: null,
                     sortDirection: 'asc',
-                    filterText: ''
+                    filterText: '',
+                    view: 'table'
                 };
                 stateMap.set(element, state);
 
@@ -356,6 +410,11 @@ export const activate: ActivationFunction = (context) => {
                     } else if (target.matches('.btn-pause')) {
                         s.isPaused = !s.isPaused;
                         render(element);
+                    } else if (target.matches('.btn-view-table') || target.matches('.btn-view-changelog')) {
+                        s.view = target.matches('.btn-view-changelog') ? 'changelog' : 'table';
+                        s.currentPage = 1;
+                        s.autoScroll = true;
+                        render(element);
                     } else if (target.matches('.btn-export-csv')) {
                         downloadCSV(s);
                     } else if (target.matches('.btn-export-json')) {
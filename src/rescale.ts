@@ -0,0 +1,78 @@
+import * as vscode from 'vscode';
+import { ResourceRequirements } from './flinkClient';
+
+type Bounds = { lowerBound: number; upperBound: number };
+type BoundsItem = vscode.QuickPickItem & { vertexId?: string; action?: 'apply' | 'all' };
+
+// A fixed parallelism ("4") or a range ("2-8")
+function parseBounds(value: string): Bounds | undefined {
+    const match = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(value);
+    if (!match) { return undefined; }
+    const lowerBound = Number(match[1]);
+    const upperBound = Number(match[2] ?? match[1]);
+    return lowerBound >= 1 && lowerBound <= upperBound ? { lowerBound, upperBound } : undefined;
+}
+
+function formatBounds(bounds: Bounds): string {
+    return bounds.lowerBound === bounds.upperBound ? `${bounds.lowerBound}` : `${bounds.lowerBound}-${bounds.upperBound}`;
+}
+
+/**
+ * Lists the parallelism bounds of every vertex next to the parallelism it runs with
+ * and lets the user edit them, per vertex or for all at once. Resolves to the edited
+ * requirements on Apply, undefined if cancelled or nothing changed.
+ */
+export async function editResourceRequirements(job: any, current: ResourceRequirements): Promise<ResourceRequirements | undefined> {
+    const edited: ResourceRequirements = JSON.parse(JSON.stringify(current));
+    const vertices: any[] = job.vertices || [];
+    const vertexOf = (id: string) => vertices.find(v => v.id === id);
+    // Vertices in the order of the job, requirements of unknown vertices last
+    const rank = (id: string) => vertexOf(id) ? vertices.indexOf(vertexOf(id)) : vertices.length;
+    const vertexIds = Object.keys(edited).sort((a, b) => rank(a) - rank(b));
+
+    for (;;) {
+        const changed = vertexIds.filter(id => formatBounds(edited[id].parallelism) !== formatBounds(current[id].parallelism));
+        const items: BoundsItem[] = [
+            { label: '$(check) Apply', description: changed.length > 0 ? `${changed.length} vertex(es) changed` : 'No changes', action: 'apply' },
+            { label: '$(layers) Set All Vertices...', action: 'all' },
+            { label: 'Vertices', kind: vscode.QuickPickItemKind.Separator },
+            ...vertexIds.map(id => {
+                const vertex = vertexOf(id);
+                const isChanged = changed.includes(id);
+                return {
+                    label: `${isChanged ? '$(edit) ' : ''}${vertex?.name || id}`,
+                    description: `Parallelism ${formatBounds(edited[id].parallelism)}${isChanged ? ` (was ${formatBounds(current[id].parallelism)})` : ''}`,
+                    detail: `Running with ${vertex?.parallelism ?? '-'}${vertex?.maxParallelism > 0 ? ` · max parallelism ${vertex.maxParallelism}` : ''}`,
+                    vertexId: id
+                };
+            })
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `Rescale ${job.name}`,
+            placeHolder: 'Select a vertex to change its parallelism bounds, then Apply'
+        });
+        if (!selected) { return undefined; }
+        if (selected.action === 'apply') {
+            return changed.length > 0 ? edited : undefined;
+        }
+
+        const ids = selected.action === 'all' ? vertexIds : [selected.vertexId!];
+        const maxParallelism = Math.min(...ids.map(id => vertexOf(id)?.maxParallelism).filter((m): m is number => m > 0));
+        const value = await vscode.window.showInputBox({
+            title: ids.length === 1 ? `${vertexOf(ids[0])?.name || ids[0]}: Parallelism` : 'All Vertices: Parallelism',
+            prompt: 'A fixed parallelism (4) or lower and upper bound (1-8). The job runs with the highest parallelism within the bounds the free slots allow.',
+            value: ids.length === 1 ? formatBounds(edited[ids[0]].parallelism) : '',
+            validateInput: v => {
+                const bounds = parseBounds(v);
+                if (!bounds) { return 'Enter a parallelism like 4 or bounds like 1-8'; }
+                if (bounds.upperBound > maxParallelism) { return `The upper bound cannot exceed the max parallelism of ${maxParallelism}`; }
+                return undefined;
+            }
+        });
+        if (value !== undefined) {
+            const bounds = parseBounds(value)!;
+            ids.forEach(id => edited[id] = { parallelism: { ...bounds } });
+        }
+    }
+}
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { FlinkGatewayClient } from './flinkClient';
+
+const STORAGE_KEY = 'flinkSavepointHistory';
+const MAX_ENTRIES = 20;
+
+// Session properties that make a job submission restore from a savepoint/checkpoint
+export const SAVEPOINT_PATH_KEY = 'execution.savepoint.path';
+export const ALLOW_NON_RESTORED_STATE_KEY = 'execution.savepoint.ignore-unclaimed-state';
+
+export interface SavepointRecord {
+    jobId: string;
+    jobName: string;
+    location: string;
+    timestamp: number;
+}
+
+/**
+ * Savepoints taken from the Running Jobs view, newest first, so they can be
+ * offered again when restarting a job.
+ */
+export class SavepointHistory {
+    constructor(private state: vscode.Memento) { }
+
+    getAll(): SavepointRecord[] {
+        return this.state.get<SavepointRecord[]>(STORAGE_KEY, []);
+    }
+
+    async add(record: SavepointRecord): Promise<void> {
+        const records = [record, ...this.getAll().filter(r => r.location !== record.location)];
+        await this.state.update(STORAGE_KEY, records.slice(0, MAX_ENTRIES));
+    }
+}
+
+type RestorePointItem = vscode.QuickPickItem & { location?: string; action?: 'checkpoints' | 'manual' };
+
+/**
+ * Asks for the savepoint or retained checkpoint to restore from and whether state
+ * that cannot be mapped to the new job may be skipped. Resolves to the per-statement
+ * configuration to submit with, or undefined if cancelled.
+ */
+export async function pickRestoreConfig(client: FlinkGatewayClient, history: SavepointHistory): Promise<Record<string, string> | undefined> {
+    const items: RestorePointItem[] = history.getAll().map(r => ({
+        label: `$(save) ${r.jobName}`,
+        description: new Date(r.timestamp).toLocaleString(),
+        detail: r.location,
+        location: r.location
+    }));
+    items.push(
+        { label: 'Other', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(history) Browse Job Checkpoints...', description: 'Savepoints and checkpoints known to the JobManager', action: 'checkpoints' },
+        { label: '$(edit) Enter Path...', action: 'manual' }
+    );
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Run from Savepoint',
+        placeHolder: 'Select the savepoint or checkpoint to restore from',
+        matchOnDetail: true
+    });
+    if (!selected) { return undefined; }
+
+    let location = selected.location;
+    if (selected.action === 'checkpoints') {
+        location = await pickJobCheckpoint(client);
+    } else if (selected.action === 'manual') {
+        location = (await vscode.window.showInputBox({
+            title: 'Run from Savepoint',
+            prompt: 'Path of the savepoint or retained checkpoint',
+            placeHolder: 's3://bucket/savepoints/savepoint-1a2b3c-0123456789ab'
+        }))?.trim();
+    }
+    if (!location) { return undefined; }
+
+    const mode = await vscode.window.showQuickPick([
+        { label: 'Restore All State', description: 'Fail if some state cannot be mapped to the new job', allowNonRestored: false },
+        { label: 'Allow Non-Restored State', description: 'Skip state of operators that no longer exist', allowNonRestored: true }
+    ], { title: 'Run from Savepoint', placeHolder: location });
+    if (!mode) { return undefined; }
+
+    return {
+        [SAVEPOINT_PATH_KEY]: location,
+        [ALLOW_NON_RESTORED_STATE_KEY]: String(mode.allowNonRestored)
+    };
+}
+
+// Picks a job, then one of its completed savepoints/checkpoints that has an external path
+async function pickJobCheckpoint(client: FlinkGatewayClient): Promise<string | undefined> {
+    const jobs = await client.getJobs();
+    if (!jobs || jobs.length === 0) {
+        vscode.window.showWarningMessage(jobs ? 'No jobs found on the JobManager.' : 'JobManager is not reachable.');
+        return undefined;
+    }
+
+    const job = await vscode.window.showQuickPick(
+        jobs
+            .sort((a, b) => (b['start-time'] || 0) - (a['start-time'] || 0))
+            .map(j => ({ label: j.name, description: j.state, detail: j.jid, jobId: j.jid as string })),
+        { title: 'Run from Savepoint', placeHolder: 'Select the job whose checkpoints to browse' }
+    );
+    if (!job) { return undefined; }
+
+    const checkpoints = await client.getJobCheckpoints(job.jobId);
+    const completed = (checkpoints?.history || []).filter((c: any) =>
+        c.status === 'COMPLETED' && c.external_path && !c.external_path.startsWith('<'));
+    if (completed.length === 0) {
+        vscode.window.showWarningMessage(`No completed checkpoints with a path found for "${job.label}". Checkpoints are only kept after the job ends if externalized checkpoint retention is enabled.`);
+        return undefined;
+    }
+
+    const items: RestorePointItem[] = completed.map((c: any) => ({
+        label: `${c.is_savepoint ? '$(save) Savepoint' : '$(history) Checkpoint'} #${c.id}`,
+        description: new Date(c.latest_ack_timestamp).toLocaleString(),
+        detail: c.external_path,
+        location: c.external_path
+    }));
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'Run from Savepoint',
+        placeHolder: 'Select the checkpoint to restore from',
+        matchOnDetail: true
+    });
+    return selected?.location;
+}
@@ -1,13 +1,18 @@
 import * as vscode from 'vscode';
-import { FlinkGatewayClient } from './flinkClient';
+import { FlinkGatewayClient, isSessionNotFoundError } from './flinkClient';
 import { ConnectionManager, FlinkConnection } from './connectionManager';
 import { Logger } from './utils/logger';
+import { GatewayLifecycleManager } from './lifecycleManager';
+import { getSessionProfile, getSessionProfiles, pickSessionProfile, WELL_KNOWN_SESSION_PROPERTIES } from './sessionProfiles';
 
 export interface SessionInfo {
     name: string;
     handle: string;
     connectionId: string;  // The connection this session uses
     createdAt: number;
+    lastUsedAt?: number;   // Last statement executed in this session
+    profile?: string;      // Session profile the session was created with
+    properties?: Record<string, string>;  // Properties sent to the gateway on creation
 }
 
 export class SessionManager implements vscode.Disposable {
@@ -20,17 +25,175 @@ export class SessionManager implements vscode.Disposable {
     private _onDidChangeSessions = new vscode.EventEmitter<void>();
     readonly onDidChangeSessions = this._onDidChangeSessions.event;
 
+    private _onDidChangeHeartbeat = new vscode.EventEmitter<void>();
+    readonly onDidChangeHeartbeat = this._onDidChangeHeartbeat.event;
+
+    // Last heartbeat error per session handle (absent = healthy)
+    private _heartbeatErrors = new Map<string, string>();
+    private _heartbeatTimer: NodeJS.Timeout | undefined;
+    private _configListener: vscode.Disposable;
+
+    // Closes operations and sessions on the gateway
+    readonly lifecycle = new GatewayLifecycleManager();
+
+    // Hidden metadata session per connection id (never listed, never persisted)
+    private _metadataSessions = new Map<string, Promise<string>>();
+
     constructor(
         private context: vscode.ExtensionContext,
         private connectionManager: ConnectionManager
     ) {
         // Load sessions from storage
         this._loadSessions();
+
+        this._startHeartbeat();
+        this._configListener = vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('flink.sessionHeartbeatInterval')) {
+                this._startHeartbeat();
+            }
+        });
     }
 
     dispose() {
+        this._closeMetadataSessions();
+        this._stopHeartbeat();
+        this._configListener.dispose();
         this._onDidChangeActiveSession.dispose();
         this._onDidChangeSessions.dispose();
+        this._onDidChangeHeartbeat.dispose();
+    }
+
+    // --- Heartbeat ---
+
+    private _startHeartbeat() {
+        this._stopHeartbeat();
+
+        const intervalSeconds = vscode.workspace.getConfiguration('flink').get<number>('sessionHeartbeatInterval', 60);
+        if (intervalSeconds <= 0) {
+            Logger.info('[SessionManager] Session heartbeat disabled');
+            return;
+        }
+
+        this._heartbeatTimer = setInterval(() => this.sendHeartbeats(), intervalSeconds * 1000);
+    }
+
+    private _stopHeartbeat() {
+        if (this._heartbeatTimer) {
+            clearInterval(this._heartbeatTimer);
+            this._heartbeatTimer = undefined;
+        }
+    }
+
+    /**
+     * Sends a heartbeat for every known session and the hidden metadata sessions so the gateway does not expire them.
+     */
+    async sendHeartbeats(): Promise<void> {
+        let changed = false;
+
+        await Promise.all(this._sessions.map(async session => {
+            const client = this.getClientForSession(session.handle);
+            if (!client) { return; }
+
+            const previous = this._heartbeatErrors.get(session.handle);
+            try {
+                await client.heartbeat(session.handle);
+                if (previous !== undefined) {
+                    this._heartbeatErrors.delete(session.handle);
+                    Logger.info(`[SessionManager] Heartbeat recovered for session ${session.name}`);
+                    changed = true;
+                }
+            } catch (e: any) {
+                const message = e.message || String(e);
+                if (previous !== message) {
+                    this._heartbeatErrors.set(session.handle, message);
+                    Logger.warn(`[SessionManager] Heartbeat failed for session ${session.name}: ${message}`);
+                    changed = true;
+                }
+            }
+        }));
+
+        await this._sendMetadataHeartbeats();
+
+        if (changed) {
+            this._onDidChangeHeartbeat.fire();
+        }
+    }
+
+    getHeartbeatError(handle: string): string | undefined {
+        return this._heartbeatErrors.get(handle);
+    }
+
+    // --- Metadata sessions ---
+
+    /**
+     * Handle of the hidden metadata session on the connection of `sessionHandle`.
+     * Metadata queries that need a USE context run there, so browsing never changes
+     * the catalog/database the user's statements run against. The session is kept alive
+     * by the heartbeat; pass `expired` when the gateway reported it missing to get a new one.
+     */
+    async getMetadataSession(sessionHandle: string, expired?: string): Promise<string> {
+        const connection = this.getConnectionForSession(sessionHandle);
+        if (!connection) {
+            throw new Error('Session connection no longer exists.');
+        }
+        const client = this.connectionManager.createClient(connection);
+
+        const cached = this._metadataSessions.get(connection.id);
+        if (cached) {
+            const handle = await cached.catch(() => undefined);
+            // Concurrent callers share the session; only the first one to report it expired replaces it
+            if (this._metadataSessions.get(connection.id) !== cached) {
+                return this.getMetadataSession(sessionHandle, expired);
+            }
+            if (handle && handle !== expired) {
+                return handle;
+            }
+            this._metadataSessions.delete(connection.id);
+            if (handle) {
+                Logger.info(`[SessionManager] Metadata session ${handle} on ${connection.name} expired, replacing it`);
+                this.lifecycle.closeSession(client, handle);
+            }
+        }
+
+        const created = client.createSession('flink-sql-toolkit-metadata').then(s => s.sessionHandle);
+        this._metadataSessions.set(connection.id, created);
+        created.then(
+            handle => Logger.info(`[SessionManager] Created metadata session ${handle} on ${connection.name}`),
+            () => {
+                if (this._metadataSessions.get(connection.id) === created) {
+                    this._metadataSessions.delete(connection.id);
+                }
+            }
+        );
+        return created;
+    }
+
+    // Heartbeats for the metadata sessions; failures are not shown, a lost session is recreated on next use
+    private async _sendMetadataHeartbeats(): Promise<void> {
+        await Promise.all([...this._metadataSessions].map(async ([connectionId, pending]) => {
+            const connection = this.connectionManager.getConnection(connectionId);
+            const handle = await pending.catch(() => undefined);
+            if (!connection || !handle) { return; }
+            try {
+                await this.connectionManager.createClient(connection).heartbeat(handle);
+            } catch (e: any) {
+                Logger.warn(`[SessionManager] Heartbeat failed for metadata session ${handle}: ${e.message}`);
+                if (isSessionNotFoundError(e) && this._metadataSessions.get(connectionId) === pending) {
+                    this._metadataSessions.delete(connectionId);
+                }
+            }
+        }));
+    }
+
+    private _closeMetadataSessions() {
+        for (const [connectionId, handle] of this._metadataSessions) {
+            const connection = this.connectionManager.getConnection(connectionId);
+            if (connection) {
+                const client = this.connectionManager.createClient(connection);
+                handle.then(h => this.lifecycle.closeSession(client, h), () => undefined);
+            }
+        }
+        this._metadataSessions.clear();
     }
 
     private _loadSessions() {
@@ -59,7 +222,7 @@ export class SessionManager implements vscode.Disposable {
         const conn = this.connectionManager.getConnection(session.connectionId);
         if (!conn) { return undefined; }
 
-        return new FlinkGatewayClient(conn.gatewayUrl, conn.jobManagerUrl);
+        return this.connectionManager.createClient(conn);
     }
 
     // Get connection for a session
@@ -112,7 +275,7 @@ export class SessionManager implements vscode.Disposable {
             this._removeSession(this._activeSessionHandle);
 
             // Auto-create 'default' session on the same connection
-            return await this.createSession('default', connectionId);
+            return await this.createSession('default', connectionId, session?.profile);
         }
 
         return this._activeSessionHandle;
@@ -122,7 +285,9 @@ export class SessionManager implements vscode.Disposable {
         return this._activeSessionHandle;
     }
 
-    async createSession(name?: string, connectionId?: string): Promise<string> {
+    async createSession(name?: string, connectionId?: string, profile?: string): Promise<string> {
+        const interactive = !name;
+
         // First, pick a connection if not provided
         let connection: FlinkConnection | undefined;
         if (connectionId) {
@@ -145,15 +310,31 @@ export class SessionManager implements vscode.Disposable {
 
         if (!name) { return ''; } // Cancelled
 
+        // Then pick a profile (defaults to the one attached to the connection)
+        if (profile === undefined) {
+            profile = connection.sessionProfile;
+            if (interactive && Object.keys(getSessionProfiles()).length > 0) {
+                profile = await pickSessionProfile(`Session profile for '${name}'`, profile);
+                if (profile === undefined) { return ''; } // Cancelled
+            }
+        }
+
+        const properties = getSessionProfile(profile);
+        if (profile && !properties) {
+            vscode.window.showWarningMessage(`Session profile '${profile}' not found. Using cluster defaults.`);
+        }
+
         try {
-            const client = new FlinkGatewayClient(connection.gatewayUrl, connection.jobManagerUrl);
-            const { sessionHandle } = await client.createSession(name);
+            const client = this.connectionManager.createClient(connection);
+            const { sessionHandle } = await client.createSession(name, properties || {});
 
             const newSession: SessionInfo = {
                 name,
                 handle: sessionHandle,
                 connectionId: connection.id,
-                createdAt: Date.now()
+                createdAt: Date.now(),
+                profile: properties ? profile : undefined,
+                properties
             };
 
             this._sessions.push(newSession);
@@ -240,18 +421,105 @@ export class SessionManager implements vscode.Disposable {
             return false;
         }
 
-        this._removeSession(handle);
+        await this._removeSession(handle, true);
         vscode.window.showInformationMessage(`Session "${session.name}" removed.`);
         return true;
     }
 
-    private _removeSession(handle: string) {
+    // closeOnGateway: also DELETE the session on the gateway (skipped for sessions that are already gone)
+    private async _removeSession(handle: string, closeOnGateway: boolean = false) {
+        const client = this.getClientForSession(handle);
         this._sessions = this._sessions.filter(s => s.handle !== handle);
+        this._heartbeatErrors.delete(handle);
         if (this._activeSessionHandle === handle) {
             this._activeSessionHandle = this._sessions.length > 0 ? this._sessions[0].handle : undefined;
         }
         this._saveSessions();
         this._onDidChangeSessions.fire();
+
+        if (closeOnGateway && client) {
+            await this.lifecycle.closeSession(client, handle);
+        }
+    }
+
+    /**
+     * Records that a statement was executed in the session (used to detect idle sessions).
+     */
+    async touchSession(handle: string) {
+        const session = this._sessions.find(s => s.handle === handle);
+        if (session) {
+            session.lastUsedAt = Date.now();
+            await this._saveSessions();
+        }
+    }
+
+    /**
+     * Sessions the gateway no longer knows, or that have been idle longer than
+     * flink.staleSessionTimeout minutes. The active session is only stale if the gateway lost it.
+     * Sessions that could not be checked (gateway unreachable, expired credentials) are never
+     * stale; they are returned as `unchecked` with the error.
+     */
+    async findStaleSessions(): Promise<{ stale: SessionInfo[]; unchecked: { session: SessionInfo; error: string }[] }> {
+        const timeoutMinutes = vscode.workspace.getConfiguration('flink').get<number>('staleSessionTimeout', 120);
+        const now = Date.now();
+        const unchecked: { session: SessionInfo; error: string }[] = [];
+
+        const stale = await Promise.all(this._sessions.map(async session => {
+            const client = this.getClientForSession(session.handle);
+            if (!client) {
+                return true;
+            }
+            try {
+                if (!(await client.checkSession(session.handle))) {
+                    return true;
+                }
+            } catch (e: any) {
+                Logger.warn(`[SessionManager] Could not check session ${session.name}: ${e.message}`);
+                unchecked.push({ session, error: e.message || String(e) });
+                return false;
+            }
+            if (session.handle === this._activeSessionHandle || timeoutMinutes <= 0) {
+                return false;
+            }
+            const lastUsed = session.lastUsedAt ?? session.createdAt;
+            return now - lastUsed > timeoutMinutes * 60 * 1000;
+        }));
+
+        return { stale: this._sessions.filter((_, i) => stale[i]), unchecked };
+    }
+
+    async closeStaleSessions(): Promise<number> {
+        const { stale, unchecked } = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Checking sessions...'
+        }, () => this.findStaleSessions());
+
+        if (unchecked.length > 0) {
+            vscode.window.showWarningMessage(
+                `Could not check ${unchecked.length} session(s), they are kept: ${unchecked[0].error}`
+            );
+        }
+        if (stale.length === 0) {
+            if (unchecked.length === 0) {
+                vscode.window.showInformationMessage('No stale sessions found.');
+            }
+            return 0;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Close ${stale.length} stale session(s)?`,
+            { modal: true, detail: stale.map(s => s.name).join('\n') },
+            'Close'
+        );
+        if (confirm !== 'Close') {
+            return 0;
+        }
+
+        for (const session of stale) {
+            await this._removeSession(session.handle, true);
+        }
+        vscode.window.showInformationMessage(`Closed ${stale.length} stale session(s).`);
+        return stale.length;
     }
 
     async validateOrRecoverSession(handle: string): Promise<string> {
@@ -264,7 +532,7 @@ export class SessionManager implements vscode.Disposable {
                 this._removeSession(handle);
                 // Attempt recovery if we have connectionId
                 Logger.info(`[SessionManager] Session ${handle} client missing. Auto-recovering...`);
-                return await this.createSession('default', session.connectionId);
+                return await this.createSession('default', session.connectionId, session.profile);
             }
             // No session info? Return empty or throw
             throw new Error('Session connection no longer exists.');
@@ -281,9 +549,39 @@ export class SessionManager implements vscode.Disposable {
             this._removeSession(handle);
 
             // Auto-create 'default' session on the same connection
-            return await this.createSession('default', connectionId);
+            return await this.createSession('default', connectionId, session?.profile);
         }
 
         return handle;
     }
+
+    /**
+     * Returns the properties requested for a session (plus a few well-known keys)
+     * with the values the gateway actually applied. Falls back to the requested
+     * values if the gateway cannot be reached.
+     */
+    async getEffectiveProperties(handle: string): Promise<Record<string, string>> {
+        const session = this.getSession(handle);
+        const requested = session?.properties || {};
+        const keys = new Set([...Object.keys(requested), ...WELL_KNOWN_SESSION_PROPERTIES]);
+
+        let config: Record<string, string> = {};
+        try {
+            const client = this.getClientForSession(handle);
+            if (client) {
+                config = await client.getSessionConfig(handle);
+            }
+        } catch (e) {
+            Logger.warn(`[SessionManager] Failed to fetch config for session ${handle}:`, e);
+        }
+
+        const effective: Record<string, string> = {};
+        for (const key of keys) {
+            const value = config[key] ?? requested[key];
+            if (value !== undefined) {
+                effective[key] = value;
+            }
+        }
+        return effective;
+    }
 }
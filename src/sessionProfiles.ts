@@ -0,0 +1,54 @@
+import * as vscode from 'vscode';
+
+// Named sets of session properties (flink.sessionProfiles setting)
+export type SessionProfiles = Record<string, Record<string, string>>;
+
+// Always shown in session tooltips, even when no profile sets them
+export const WELL_KNOWN_SESSION_PROPERTIES = [
+    'execution.runtime-mode',
+    'parallelism.default',
+    'table.local-time-zone'
+];
+
+export function getSessionProfiles(): SessionProfiles {
+    const profiles = vscode.workspace.getConfiguration('flink').get<SessionProfiles>('sessionProfiles', {});
+
+    // Values may be typed as numbers/booleans in settings.json, the gateway expects strings
+    const result: SessionProfiles = {};
+    for (const [name, properties] of Object.entries(profiles || {})) {
+        result[name] = {};
+        for (const [key, value] of Object.entries(properties || {})) {
+            result[name][key] = String(value);
+        }
+    }
+    return result;
+}
+
+export function getSessionProfile(name: string | undefined): Record<string, string> | undefined {
+    if (!name) { return undefined; }
+    return getSessionProfiles()[name];
+}
+
+/**
+ * Lets the user pick a profile. Resolves to the profile name, '' for "no profile",
+ * or undefined if the picker was cancelled.
+ */
+export async function pickSessionProfile(title: string, current?: string): Promise<string | undefined> {
+    const profiles = getSessionProfiles();
+
+    const items: (vscode.QuickPickItem & { profile: string })[] = [
+        { label: 'No Profile', description: 'Use cluster defaults', profile: '' },
+        ...Object.entries(profiles).map(([name, properties]) => ({
+            label: name,
+            description: Object.entries(properties).map(([k, v]) => `${k}=${v}`).join(', '),
+            profile: name
+        }))
+    ];
+    items.forEach(i => { if (i.profile === (current || '')) { i.label = `$(check) ${i.label}`; } });
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title,
+        placeHolder: 'Select a session profile'
+    });
+    return selected?.profile;
+}
@@ -19,6 +19,10 @@ export class FlinkSessionsProvider implements vscode.TreeDataProvider<SessionTre
         sessionManager.onDidChangeActiveSession(() => {
             this._onDidChangeTreeData.fire();
         });
+
+        sessionManager.onDidChangeHeartbeat(() => {
+            this._onDidChangeTreeData.fire();
+        });
     }
 
     dispose() {
@@ -33,6 +37,20 @@ export class FlinkSessionsProvider implements vscode.TreeDataProvider<SessionTre
         return element;
     }
 
+    // Tooltip with the effective session properties, fetched from the gateway on hover
+    async resolveTreeItem(item: vscode.TreeItem, element: SessionTreeItem): Promise<vscode.TreeItem> {
+        if (element.itemType !== 'session' || !element.session) {
+            return item;
+        }
+
+        const properties = await this.sessionManager.getEffectiveProperties(element.session.handle);
+        const lines = Object.entries(properties).map(([k, v]) => `  ${k} = ${v}`);
+        if (lines.length > 0) {
+            item.tooltip = `${item.tooltip}\n\nProperties:\n${lines.join('\n')}`;
+        }
+        return item;
+    }
+
     getChildren(element?: SessionTreeItem): vscode.ProviderResult<SessionTreeItem[]> {
         if (element) {
             // No children for sessions
@@ -58,21 +76,29 @@ export class FlinkSessionsProvider implements vscode.TreeDataProvider<SessionTre
         return sessions.map(session => {
             const isActive = session.handle === activeHandle;
             const conn = this.connectionManager.getConnection(session.connectionId);
+            const heartbeatError = this.sessionManager.getHeartbeatError(session.handle);
 
-            const icon = new vscode.ThemeIcon(
+            let icon = new vscode.ThemeIcon(
                 isActive ? 'terminal-tmux' : 'circle-outline',
                 isActive
                     ? new vscode.ThemeColor('charts.green')
                     : new vscode.ThemeColor('descriptionForeground')
             );
+            let description = isActive ? `● ${conn?.name || 'Unknown'}` : conn?.name || 'Unknown';
+
+            if (heartbeatError) {
+                icon = new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+                description += ' (heartbeat failed)';
+            }
 
             return new SessionTreeItem(
                 session.name,
                 vscode.TreeItemCollapsibleState.None,
                 session,
                 'session',
-                isActive ? `● ${conn?.name || 'Unknown'}` : conn?.name || 'Unknown',
-                icon
+                description,
+                icon,
+                heartbeatError
             );
         });
     }
@@ -85,7 +111,8 @@ export class SessionTreeItem extends vscode.TreeItem {
         public readonly session: SessionInfo | undefined,
         public readonly itemType: 'session' | 'detail' | 'empty',
         description?: string,
-        icon?: vscode.ThemeIcon
+        icon?: vscode.ThemeIcon,
+        heartbeatError?: string
     ) {
         super(label, collapsibleState);
 
@@ -100,7 +127,10 @@ export class SessionTreeItem extends vscode.TreeItem {
         this.contextValue = itemType;
 
         if (itemType === 'session' && session) {
-            this.tooltip = `Session: ${session.name}\nHandle: ${session.handle}\nCreated: ${new Date(session.createdAt).toLocaleString()}\n\nClick to set as active for Explorer`;
+            this.tooltip = `Session: ${session.name}\nHandle: ${session.handle}\nCreated: ${new Date(session.createdAt).toLocaleString()}\nProfile: ${session.profile || 'None'}\n\nClick to set as active for Explorer`;
+            if (heartbeatError) {
+                this.tooltip = `⚠ Heartbeat failed: ${heartbeatError}\n\n${this.tooltip}`;
+            }
 
             // Click to set as active session (used by Explorer)
             this.command = {
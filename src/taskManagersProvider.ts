@@ -2,18 +2,19 @@ import * as vscode from 'vscode';
 import { FlinkGatewayClient } from './flinkClient';
 import { SessionManager } from './sessionManager';
 import { Logger } from './utils/logger';
+import { WebviewHelper } from './utils/webviewHelper';
 
 export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vscode.Disposable {
     private _view?: vscode.WebviewView;
     private client: FlinkGatewayClient;
     private timer: NodeJS.Timeout | undefined;
 
-    constructor(gatewayUrl: string, jobManagerUrl: string, private sessionManager: SessionManager) {
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+    constructor(client: FlinkGatewayClient, private sessionManager: SessionManager) {
+        this.client = client;
     }
 
-    updateConnection(gatewayUrl: string, jobManagerUrl: string) {
-        this.client = new FlinkGatewayClient(gatewayUrl, jobManagerUrl);
+    updateClient(client: FlinkGatewayClient) {
+        this.client = client;
         this.refresh();
     }
 
@@ -32,6 +33,11 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
             if (message.command === 'copy') {
                 vscode.env.clipboard.writeText(message.text);
                 vscode.window.showInformationMessage(`Copied: ${message.text}`);
+            } else if (message.command === 'threadDump') {
+                vscode.commands.executeCommand('flink.showThreadDump', message.taskManagerId);
+            } else if (message.command === 'showLogs') {
+                // No TaskManager ID means the JobManager
+                vscode.commands.executeCommand(message.taskManagerId ? 'flink.showTaskManagerLogs' : 'flink.showJobManagerLogs', message.taskManagerId, message.file);
             }
         });
 
@@ -161,6 +167,7 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
         // TM Generator
         const tmCards = tms.map(tm => {
             const shortId = tm.id.split('-')[0];
+            const tmId = WebviewHelper.escapeHtml(JSON.stringify(tm.id));
             const slots = `${tm.freeSlots} / ${tm.slotsNumber}`;
 
             // Resources (CPU/Mem) could be added here as progress bars if needed
@@ -189,6 +196,12 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
                     <span class="tm-k">Heap</span>
                     <span class="tm-v">${heap}</span>
                 </div>
+                <div class="tm-actions">
+                    <button class="link" onclick="showLogs(${tmId}, 'log')" title="Open the TaskManager log">Log</button>
+                    <button class="link" onclick="showLogs(${tmId}, 'stdout')" title="Open the TaskManager stdout">Stdout</button>
+                    <button class="link" onclick="showLogs(${tmId})" title="Select a log file of this TaskManager">All Logs...</button>
+                    <button class="link" onclick="threadDump(${tmId})" title="Take a thread dump of this TaskManager">Thread Dump</button>
+                </div>
             </div>`;
         }).join('');
 
@@ -218,6 +231,7 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
             padding-bottom: 5px;
         }
         .title { font-weight: bold; font-size: 1.1em; }
+        .header-link { float: right; font-size: 0.85em; }
         .subtitle { color: var(--sub-fg); font-size: 0.85em; margin-left: 5px; }
 
         .grid {
@@ -271,6 +285,9 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
         }
         .tm-k { color: var(--sub-fg); }
         .tm-v { font-family: monospace; }
+        .tm-actions { display: flex; flex-wrap: wrap; gap: 4px 10px; margin-top: 6px; font-size: 0.85em; }
+        button.link { background: none; border: none; padding: 0; color: var(--accent); cursor: pointer; font: inherit; }
+        button.link:hover { text-decoration: underline; }
         
         .no-data { text-align: center; color: var(--sub-fg); margin-top: 20px; }
         .copy-btn {
@@ -288,12 +305,19 @@ export class FlinkTaskManagersProvider implements vscode.WebviewViewProvider, vs
         function copyText(text) {
             vscode.postMessage({ command: 'copy', text: text });
         }
+        function showLogs(taskManagerId, file) {
+            vscode.postMessage({ command: 'showLogs', taskManagerId: taskManagerId, file: file });
+        }
+        function threadDump(taskManagerId) {
+            vscode.postMessage({ command: 'threadDump', taskManagerId: taskManagerId });
+        }
     </script>
 </head>
 <body>
     <div class="header">
         <span class="title">Flink Cluster</span>
         <span class="subtitle">v${flinkVersion} ${commitId ? `(${commitId.substring(0, 7)})` : ''}</span>
+        <button class="link header-link" onclick="showLogs()" title="Select a log file of the JobManager">JobManager Logs</button>
     </div>
 
     <div class="grid">
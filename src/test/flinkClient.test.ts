@@ -0,0 +1,412 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FlinkGatewayClient } from '../flinkClient';
+import { FlinkServerError } from '../transport';
+import { MockFlinkServer } from './mockFlinkServer';
+
+suite('FlinkGatewayClient (mock gateway)', () => {
+	const server = new MockFlinkServer();
+	let url: string;
+
+	// Each test gets its own client; retries off so failures surface immediately
+	const createClient = (jobManagerUrl?: string) =>
+		new FlinkGatewayClient(url, jobManagerUrl ?? url, { maxRetries: 0, timeoutMs: 5000 });
+
+	suiteSetup(async () => {
+		url = await server.start();
+	});
+
+	suiteTeardown(async () => {
+		await server.stop();
+	});
+
+	setup(() => {
+		server.reset();
+	});
+
+	// The negotiated version is cached per gateway URL, so version tests use their own server
+	const withGateway = async (versions: string[], fn: (client: FlinkGatewayClient, gateway: MockFlinkServer) => Promise<void>) => {
+		const gateway = new MockFlinkServer();
+		gateway.apiVersions = versions;
+		const gatewayUrl = await gateway.start();
+		try {
+			await fn(new FlinkGatewayClient(gatewayUrl, gatewayUrl, { maxRetries: 0, timeoutMs: 5000 }), gateway);
+		} finally {
+			await gateway.stop();
+		}
+	};
+
+	test('negotiates the highest shared API version', async () => {
+		await withGateway(['V1', 'V2'], async client => {
+			assert.strictEqual(await client.getApiVersion(), 'v2');
+		});
+	});
+
+	test('fetches results without rowFormat on v1 gateways', async () => {
+		await withGateway(['V1'], async (client, gateway) => {
+			gateway.onStatement('SHOW DATABASES', { pages: [[{ fields: ['default_database'] }]] });
+			const { sessionHandle } = await client.createSession('test');
+
+			assert.deepStrictEqual(await client.listDatabases(sessionHandle, 'default_catalog'), ['default_database']);
+			assert.ok(gateway.requests.every(r => r.path.startsWith('/v1/') || r.path === '/api_versions'));
+			assert.strictEqual(await client.supportsCompletion(), false);
+			assert.strictEqual(await client.completeStatement(sessionHandle, 'SE', 2), null);
+		});
+	});
+
+	test('creates sessions with profile properties', async () => {
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test', { 'parallelism.default': '4' });
+
+		const config = await client.getSessionConfig(sessionHandle);
+		assert.strictEqual(config['parallelism.default'], '4');
+		assert.strictEqual(await client.checkSession(sessionHandle), true);
+
+		await client.closeSession(sessionHandle);
+		assert.strictEqual(await client.checkSession(sessionHandle), false);
+
+		// Only a missing session is reported as such, other failures are thrown
+		server.failingPaths.set(`/v3/sessions/${sessionHandle}`, 401);
+		await assert.rejects(client.checkSession(sessionHandle), /401/);
+	});
+
+	test('follows result tokens until EOS and closes the operation', async () => {
+		server.onStatement('SHOW CATALOGS', {
+			columns: [{ name: 'catalog name', logicalType: { type: 'VARCHAR', nullable: false, length: 2147483647 } }],
+			notReadyFetches: 2,
+			pages: [
+				[{ kind: 'INSERT', fields: ['default_catalog'] }],
+				[{ kind: 'INSERT', fields: ['hive'] }]
+			]
+		});
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test');
+		const catalogs = await client.listCatalogs(sessionHandle);
+
+		assert.deepStrictEqual(catalogs, ['default_catalog', 'hive']);
+		await new Promise(r => setTimeout(r, 100)); // close is fire-and-forget
+		assert.strictEqual(server.sessions.get(sessionHandle)!.operations.size, 0);
+	});
+
+	test('decodes typed columns and row kinds', async () => {
+		server.onStatement('SELECT', {
+			columns: [
+				{ name: 'amount', logicalType: { type: 'DECIMAL', nullable: true, precision: 10, scale: 2 } },
+				{ name: 'ts', logicalType: { type: 'TIMESTAMP_WITH_LOCAL_TIME_ZONE', nullable: false, precision: 3 } }
+			],
+			isQueryResult: true,
+			pages: [[{ kind: 'UPDATE_AFTER', fields: ['1.50', '2024-01-01 00:00:00.000'] }]]
+		});
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test');
+		const { statementHandle } = await client.executeStatement(sessionHandle, 'SELECT 1');
+		const result = await client.fetchResults(sessionHandle, statementHandle, 0);
+
+		assert.strictEqual(result.resultType, 'PAYLOAD');
+		assert.strictEqual(result.isQueryResult, true);
+		assert.strictEqual(result.nextResultToken, 1);
+		assert.deepStrictEqual(result.columns[0].logicalType, { type: 'DECIMAL', nullable: true, precision: 10, scale: 2 });
+		assert.strictEqual(result.columns[1].logicalType.type, 'TIMESTAMP_WITH_LOCAL_TIME_ZONE');
+		assert.strictEqual(result.results[0].kind, 'UPDATE_AFTER');
+		assert.strictEqual(await client.getOperationStatus(sessionHandle, statementHandle), 'RUNNING');
+	});
+
+	test('reports server errors with the root cause and server-side stack', async () => {
+		server.onStatement('SELECT * FROM missing', {
+			error: 'org.apache.flink.table.api.ValidationException: Object \'missing\' not found'
+		});
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test');
+		const { statementHandle } = await client.executeStatement(sessionHandle, 'SELECT * FROM missing');
+
+		await assert.rejects(client.fetchResults(sessionHandle, statementHandle, 0), (e: any) => {
+			assert.ok(e instanceof FlinkServerError);
+			assert.strictEqual(e.statusCode, 500);
+			assert.match(e.message, /Caused by: org\.apache\.flink\.table\.api\.ValidationException/);
+			assert.match(e.stack || '', /SqlGatewayServiceImpl/);
+			return true;
+		});
+		assert.strictEqual(await client.getOperationStatus(sessionHandle, statementHandle), 'ERROR');
+	});
+
+	test('lists database objects without changing the session context', async () => {
+		server.onStatement('SHOW TABLES FROM', { pages: [[{ fields: ['orders'] }, { fields: ['orders_view'] }]] });
+		server.onStatement('SHOW VIEWS FROM', { pages: [[{ fields: ['orders_view'] }]] });
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test');
+		const objects = await client.listTablesWithKindInDatabase(sessionHandle, 'cat', 'db', async () => {
+			throw new Error('metadata session not expected');
+		});
+
+		assert.deepStrictEqual(objects, [{ name: 'orders', kind: 'TABLE' }, { name: 'orders_view', kind: 'VIEW' }]);
+		assert.ok(!server.executedStatements.some(s => s.startsWith('USE')));
+	});
+
+	test('falls back to the metadata session when SHOW ... FROM is not supported', async () => {
+		server.onStatement('SHOW TABLES FROM', { pages: [[{ fields: ['t'] }, { fields: ['v'] }]] });
+		server.onStatement('SHOW VIEWS FROM', { error: 'org.apache.flink.sql.parser.impl.ParseException: Encountered "FROM"' });
+		server.onStatement(/^SHOW VIEWS$/, { pages: [[{ fields: ['v'] }]] });
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('user');
+		const { sessionHandle: metadataHandle } = await client.createSession('metadata');
+		const objects = await client.listTablesWithKindInDatabase(sessionHandle, 'cat', 'db', async () => metadataHandle);
+
+		assert.deepStrictEqual(objects, [{ name: 't', kind: 'TABLE' }, { name: 'v', kind: 'VIEW' }]);
+		const useStatements = server.requests.filter(r => r.body?.statement?.startsWith('USE'));
+		assert.strictEqual(useStatements.length, 2);
+		assert.ok(useStatements.every(r => r.path.includes(metadataHandle)));
+	});
+
+	test('retries on a new metadata session when the gateway expired it', async () => {
+		server.onStatement('SHOW TABLES FROM', { error: 'org.apache.flink.sql.parser.impl.ParseException: Encountered "FROM"' });
+		server.onStatement(/^SHOW TABLES$/, { pages: [[{ fields: ['t'] }]] });
+
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('user');
+		const { sessionHandle: expired } = await client.createSession('metadata');
+		const { sessionHandle: replacement } = await client.createSession('metadata');
+		server.sessions.delete(expired);
+
+		const requested: (string | undefined)[] = [];
+		const tables = await client.listTablesInDatabase(sessionHandle, 'cat', 'db', async previous => {
+			requested.push(previous);
+			return previous ? replacement : expired;
+		});
+
+		assert.deepStrictEqual(tables, ['t']);
+		assert.deepStrictEqual(requested, [undefined, expired]);
+	});
+
+	test('uses complete-statement on v2+ gateways', async () => {
+		server.completionCandidates = ['SELECT', 'SET'];
+		const client = createClient();
+		const { sessionHandle } = await client.createSession('test');
+
+		assert.strictEqual(await client.supportsCompletion(), true);
+		assert.deepStrictEqual(await client.completeStatement(sessionHandle, 'SE', 2), ['SELECT', 'SET']);
+		assert.strictEqual(server.requests.at(-1)!.method, 'GET');
+		assert.deepStrictEqual(server.requests.at(-1)!.body, { statement: 'SE', position: 2 });
+		// Still supported for the next trigger
+		assert.deepStrictEqual(await client.completeStatement(sessionHandle, 'SEL', 3), ['SELECT', 'SET']);
+	});
+
+	test('reads jobs, overview and TaskManagers from the JobManager', async () => {
+		server.jobs = [{ jid: 'job-1', name: 'insert-into-orders', state: 'RUNNING', 'start-time': Date.now() }];
+		server.taskManagers = [{ id: 'tm-1', slotsNumber: 4, freeSlots: 3 }];
+
+		const client = createClient();
+		assert.strictEqual((await client.getJobs())![0].jid, 'job-1');
+		assert.strictEqual((await client.getClusterOverview()).taskmanagers, 1);
+		assert.strictEqual((await client.getTaskManagers())![0].id, 'tm-1');
+
+		await client.cancelJob('job-1');
+		assert.strictEqual(server.jobs[0].state, 'CANCELED');
+	});
+
+	test('polls savepoint triggers until they complete', async () => {
+		server.jobs = [{ jid: 'job-1', name: 'insert-into-orders', state: 'RUNNING' }];
+		server.savepointPolls = 2;
+		const client = createClient();
+
+		const triggerId = await client.triggerSavepoint('job-1', 's3://bucket/savepoints');
+		assert.deepStrictEqual(await client.getSavepointStatus('job-1', triggerId), { state: 'IN_PROGRESS' });
+		const location = await client.waitForSavepoint('job-1', triggerId, undefined, 10);
+
+		assert.match(location, /^s3:\/\/bucket\/savepoints\/savepoint-job-1/);
+		assert.strictEqual(server.jobs[0].state, 'RUNNING');
+	});
+
+	test('stops jobs with a savepoint and reports failures', async () => {
+		server.jobs = [{ jid: 'job-1', name: 'insert-into-orders', state: 'RUNNING' }];
+		const client = createClient();
+
+		const location = await client.waitForSavepoint('job-1', await client.stopWithSavepoint('job-1', undefined, true), undefined, 10);
+		assert.match(location, /savepoint-job-1/);
+		assert.strictEqual(server.jobs[0].state, 'FINISHED');
+		assert.deepStrictEqual(server.requests.find(r => r.path === '/jobs/job-1/stop')!.body, { targetDirectory: null, drain: true });
+
+		server.savepointFailure = 'java.lang.IllegalStateException: No savepoint directory configured';
+		const triggerId = await client.triggerSavepoint('job-1');
+		await assert.rejects(client.waitForSavepoint('job-1', triggerId, undefined, 10), /Savepoint failed: java\.lang\.IllegalStateException/);
+	});
+
+	test('reads checkpoint statistics down to operator subtasks', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/checkpoints', { counts: { total: 2, completed: 1, failed: 1 }, history: [{ id: 2, status: 'FAILED' }, { id: 1, status: 'COMPLETED' }] });
+		server.jobManagerResponses.set('/jobs/job-1/checkpoints/config', { mode: 'exactly_once', interval: 10000 });
+		server.jobManagerResponses.set('/jobs/job-1/checkpoints/details/1', { id: 1, tasks: { 'vertex-1': { status: 'COMPLETED' } } });
+		server.jobManagerResponses.set('/jobs/job-1/checkpoints/details/1/subtasks/vertex-1', { summary: { alignment: { duration: { min: 1, avg: 5, max: 12 } } } });
+		const client = createClient();
+
+		assert.strictEqual((await client.getJobCheckpoints('job-1')).counts.failed, 1);
+		assert.strictEqual((await client.getCheckpointConfig('job-1')).mode, 'exactly_once');
+		assert.deepStrictEqual(Object.keys((await client.getCheckpointDetails('job-1', 1)).tasks), ['vertex-1']);
+		assert.strictEqual((await client.getCheckpointSubtaskDetails('job-1', 1, 'vertex-1')).summary.alignment.duration.max, 12);
+		assert.strictEqual(await client.getCheckpointDetails('job-1', 2), null);
+	});
+
+	test('reads the job plan with ship strategies', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/plan', {
+			plan: {
+				jid: 'job-1',
+				nodes: [
+					{ id: 'sink', parallelism: 2, description: 'Sink: orders', inputs: [{ num: 0, id: 'source', ship_strategy: 'HASH', exchange: 'pipelined_bounded' }] },
+					{ id: 'source', parallelism: 4, description: 'Source: orders' }
+				]
+			}
+		});
+		const client = createClient();
+
+		const plan = await client.getJobPlan('job-1');
+		assert.strictEqual(plan.plan.nodes[0].inputs[0].ship_strategy, 'HASH');
+		assert.strictEqual(await client.getJobPlan('job-2'), null);
+	});
+
+	test('reads backpressure and aggregated subtask metrics of a vertex', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/vertices/v1/backpressure', { status: 'ok', backpressureLevel: 'high', subtasks: [{ subtask: 0, backpressureLevel: 'high', ratio: 0.9 }] });
+		server.jobManagerResponses.set('/jobs/job-1/vertices/v1/subtasks/metrics', [
+			{ id: 'busyTimeMsPerSecond', min: 100, max: 980, avg: 540, sum: 1080 },
+			{ id: 'numRecordsInPerSecond', min: 10, max: 20, avg: 15, sum: 30 }
+		]);
+		const client = createClient();
+
+		assert.strictEqual((await client.getVertexBackPressure('job-1', 'v1')).backpressureLevel, 'high');
+		const metrics = await client.getVertexMetrics('job-1', 'v1', ['busyTimeMsPerSecond', 'numRecordsInPerSecond']);
+		assert.strictEqual(metrics!.busyTimeMsPerSecond.max, 980);
+		assert.strictEqual(metrics!.numRecordsInPerSecond.sum, 30);
+		const request = server.requests.find(r => r.path === '/jobs/job-1/vertices/v1/subtasks/metrics');
+		assert.strictEqual(new URLSearchParams(request!.query).get('get'), 'busyTimeMsPerSecond,numRecordsInPerSecond');
+		assert.strictEqual(await client.getVertexMetrics('job-2', 'v1', ['busyTimeMsPerSecond']), null);
+	});
+
+	test('reads subtask watermarks of a vertex', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/vertices/v1/watermarks', [
+			{ id: '0.currentInputWatermark', value: '1700000000000' },
+			{ id: '1.currentInputWatermark', value: '-9223372036854775808' }
+		]);
+		const client = createClient();
+
+		const watermarks = await client.getVertexWatermarks('job-1', 'v1');
+		assert.deepStrictEqual(watermarks!.map(w => w.id), ['0.currentInputWatermark', '1.currentInputWatermark']);
+		assert.strictEqual(await client.getVertexWatermarks('job-2', 'v1'), null);
+	});
+
+	test('reads the exception history of a job', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/exceptions', {
+			'root-exception': 'java.lang.RuntimeException: boom',
+			exceptionHistory: { entries: [{ exceptionName: 'java.lang.RuntimeException', stacktrace: 'java.lang.RuntimeException: boom', taskName: 'Sink: orders', concurrentExceptions: [] }], truncated: false }
+		});
+		const client = createClient();
+
+		const exceptions = await client.getJobExceptions('job-1', 10);
+		assert.strictEqual(exceptions.exceptionHistory.entries[0].taskName, 'Sink: orders');
+		assert.ok(server.requests.some(r => r.path === '/jobs/job-1/exceptions'));
+		assert.strictEqual(await client.getJobExceptions('job-2'), null);
+	});
+
+	test('reads TaskManager and JobManager logs as text', async () => {
+		server.jobManagerResponses.set('/taskmanagers/tm-1/logs', { logs: [{ name: 'taskmanager.log', size: 2048 }, { name: 'taskmanager.out', size: 10 }] });
+		server.jobManagerResponses.set('/taskmanagers/tm-1/stdout', 'hello from print sink\n');
+		server.jobManagerResponses.set('/jobmanager/logs/jobmanager.log.1', '2024-01-01 00:00:00,000 INFO  Starting\n');
+		const client = createClient();
+
+		assert.deepStrictEqual((await client.getLogFiles('tm-1'))!.map(f => f.name), ['taskmanager.log', 'taskmanager.out']);
+		assert.strictEqual(await client.getLog('tm-1', 'stdout'), 'hello from print sink\n');
+		assert.match(await client.getLog(undefined, 'jobmanager.log.1'), /INFO {2}Starting/);
+		assert.strictEqual(await client.getLogFiles('tm-2'), null);
+		await assert.rejects(client.getLog('tm-2', 'log'));
+	});
+
+	test('reads thread dumps and vertex flame graphs', async () => {
+		server.jobManagerResponses.set('/taskmanagers/tm-1/thread-dump', { threadInfos: [{ threadName: 'Source: orders (1/2)', stringifiedThreadInfo: '"Source: orders (1/2)" Id=42 BLOCKED on java.lang.Object@1a2b' }] });
+		server.jobManagerResponses.set('/jobs/job-1/vertices/v1/flamegraph', { endTimestamp: 1700000000000, data: { name: 'root', value: 10, children: [] } });
+		const client = createClient();
+
+		assert.strictEqual((await client.getThreadDump('tm-1')).threadInfos[0].threadName, 'Source: orders (1/2)');
+		assert.strictEqual(await client.getThreadDump(), null);
+		assert.strictEqual((await client.getVertexFlameGraph('job-1', 'v1', 'off_cpu')).data.value, 10);
+		assert.strictEqual(server.requests.find(r => r.path.endsWith('/flamegraph'))!.query, '?type=off_cpu');
+		await assert.rejects(client.getVertexFlameGraph('job-2', 'v1', 'on_cpu'));
+	});
+
+	test('reads the execution config, job configuration and cluster defaults', async () => {
+		server.jobManagerResponses.set('/jobs/job-1/config', {
+			jid: 'job-1',
+			name: 'orders',
+			'execution-config': { 'execution-mode': 'PIPELINED', 'job-parallelism': 4, 'user-config': { 'table.exec.state.ttl': '1 h' } }
+		});
+		server.jobManagerResponses.set('/jobs/job-1/jobmanager/config', [{ key: 'pipeline.name', value: 'orders' }]);
+		server.jobManagerResponses.set('/jobmanager/config', [{ key: 'parallelism.default', value: '2' }]);
+		const client = createClient();
+
+		const execution = await client.getJobExecutionConfig('job-1');
+		assert.strictEqual(execution['job-parallelism'], 4);
+		assert.strictEqual(execution['user-config']['table.exec.state.ttl'], '1 h');
+		assert.deepStrictEqual(await client.getJobConfiguration('job-1'), [{ key: 'pipeline.name', value: 'orders' }]);
+		assert.deepStrictEqual(await client.getJobManagerConfig(), [{ key: 'parallelism.default', value: '2' }]);
+		// Older JobManagers do not serve the job configuration
+		assert.strictEqual(await client.getJobConfiguration('job-2'), null);
+	});
+
+	test('rescales a job and waits until it runs within the new bounds', async () => {
+		server.jobs = [
+			{ jid: 'job-1', name: 'orders', state: 'RUNNING', vertices: [{ id: 'v1', name: 'Source', parallelism: 2, status: 'RUNNING' }], resourceRequirements: { v1: { parallelism: { lowerBound: 1, upperBound: 2 } } } },
+			{ jid: 'job-2', name: 'default scheduler', state: 'RUNNING' }
+		];
+		const client = createClient();
+
+		const requirements = (await client.getResourceRequirements('job-1'))!;
+		assert.strictEqual(requirements.v1.parallelism.upperBound, 2);
+		assert.strictEqual(await client.getResourceRequirements('job-2'), null);
+
+		const bounds = { v1: { parallelism: { lowerBound: 1, upperBound: 4 } } };
+		await client.setResourceRequirements('job-1', bounds);
+		const states: string[] = [];
+		const job = await client.waitForRescale('job-1', bounds, undefined, state => states.push(state), 10);
+		assert.deepStrictEqual(states, ['RESTARTING']);
+		assert.strictEqual(job.vertices[0].parallelism, 4);
+		assert.deepStrictEqual(server.requests.find(r => r.method === 'PUT')!.body, bounds);
+
+		server.jobs[0].state = 'FAILED';
+		await assert.rejects(client.waitForRescale('job-1', bounds, undefined, undefined, 10), /FAILED/);
+	});
+
+	test('uploads, runs, plans and deletes jars', async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flink-jars-'));
+		const jarPath = path.join(dir, 'pipeline.jar');
+		fs.writeFileSync(jarPath, 'PK');
+		const client = createClient();
+		try {
+			const jarId = await client.uploadJar(jarPath);
+			assert.ok(jarId.endsWith('_pipeline.jar'));
+			assert.deepStrictEqual((await client.getJars())!.map(j => j.name), ['pipeline.jar']);
+
+			const jobId = await client.runJar(jarId, { programArgs: ['--window', '5 min'], parallelism: 2, savepointPath: 'file:/tmp/sp-1' });
+			assert.deepStrictEqual(server.requests.find(r => r.path.endsWith('/run'))!.body, { programArgsList: ['--window', '5 min'], parallelism: 2, savepointPath: 'file:/tmp/sp-1' });
+			assert.ok((await client.getJobs())!.some(j => j.jid === jobId));
+
+			const plan = await client.getJarPlan(jarId, { entryClass: 'com.example.Other', parallelism: 3 });
+			assert.strictEqual(plan.name, 'com.example.Other');
+			assert.strictEqual(plan.nodes[0].parallelism, 3);
+
+			await client.deleteJar(jarId);
+			assert.deepStrictEqual(await client.getJars(), []);
+			await assert.rejects(client.runJar(jarId), /does not exist/);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	test('returns null when the JobManager is offline', async () => {
+		const client = createClient('http://127.0.0.1:9');
+		assert.strictEqual(await client.getJobs(), null);
+		assert.strictEqual(await client.isJobManagerReachable(), false);
+		assert.strictEqual(await client.isGatewayReachable(), true);
+	});
+});
@@ -0,0 +1,99 @@
+import * as assert from 'assert';
+import { formatLogicalType, LogicalType, parseLogicalType, RowType } from '../logicalType';
+
+suite('LogicalType', () => {
+	test('parses precision, scale and nullability from JSON descriptors', () => {
+		assert.deepStrictEqual(parseLogicalType({ type: 'DECIMAL', nullable: false, precision: 10, scale: 2 }),
+			{ type: 'DECIMAL', nullable: false, precision: 10, scale: 2 });
+		assert.deepStrictEqual(parseLogicalType({ type: 'VARCHAR', nullable: true, length: 20 }),
+			{ type: 'VARCHAR', nullable: true, length: 20 });
+		assert.deepStrictEqual(parseLogicalType({ type: 'TIMESTAMP_WITH_LOCAL_TIME_ZONE', precision: 3 }),
+			{ type: 'TIMESTAMP_WITH_LOCAL_TIME_ZONE', nullable: true, precision: 3 });
+
+		// Missing nullable means nullable, missing precision/scale are Flink's DECIMAL defaults
+		assert.deepStrictEqual(parseLogicalType({ type: 'decimal' }), { type: 'DECIMAL', nullable: true, precision: 10, scale: 0 });
+	});
+
+	test('parses SQL strings and aliases into the same model', () => {
+		assert.deepStrictEqual(parseLogicalType('DECIMAL(10, 2) NOT NULL'), { type: 'DECIMAL', nullable: false, precision: 10, scale: 2 });
+		assert.deepStrictEqual(parseLogicalType('INT'), parseLogicalType({ type: 'INTEGER' }));
+		assert.deepStrictEqual(parseLogicalType('STRING'), { type: 'VARCHAR', nullable: true, length: undefined });
+		assert.deepStrictEqual(parseLogicalType('NUMERIC(5)'), { type: 'DECIMAL', nullable: true, precision: 5, scale: 0 });
+
+		const ltz = { type: 'TIMESTAMP_WITH_LOCAL_TIME_ZONE', nullable: true, precision: 3 };
+		assert.deepStrictEqual(parseLogicalType('TIMESTAMP_LTZ(3)'), ltz);
+		assert.deepStrictEqual(parseLogicalType('TIMESTAMP(3) WITH LOCAL TIME ZONE'), ltz);
+		assert.strictEqual(parseLogicalType('TIMESTAMP(6) WITHOUT TIME ZONE').type, 'TIMESTAMP_WITHOUT_TIME_ZONE');
+		assert.strictEqual(parseLogicalType('TIMESTAMP(6) WITH TIME ZONE').type, 'TIMESTAMP_WITH_TIME_ZONE');
+	});
+
+	test('parses nested ROW, ARRAY and MAP types', () => {
+		const type = parseLogicalType('ROW<id INT NOT NULL, tags ARRAY<STRING>, `geo point` MAP<STRING, ROW<x DOUBLE, y DOUBLE>>> NOT NULL') as RowType;
+
+		assert.strictEqual(type.type, 'ROW');
+		assert.strictEqual(type.nullable, false);
+		assert.deepStrictEqual(type.fields.map(f => f.name), ['id', 'tags', 'geo point']);
+		assert.deepStrictEqual(type.fields[0].fieldType, { type: 'INTEGER', nullable: false });
+
+		const tags = type.fields[1].fieldType;
+		assert.ok(tags.type === 'ARRAY');
+		assert.strictEqual(tags.elementType.type, 'VARCHAR');
+
+		const geo = type.fields[2].fieldType;
+		assert.ok(geo.type === 'MAP');
+		assert.strictEqual(geo.keyType.type, 'VARCHAR');
+		assert.ok(geo.valueType.type === 'ROW');
+		assert.deepStrictEqual(geo.valueType.fields.map(f => [f.name, f.fieldType.type]), [['x', 'DOUBLE'], ['y', 'DOUBLE']]);
+
+		// The JSON form of the gateway yields the same structure
+		const json = parseLogicalType({
+			type: 'ROW',
+			fields: [{ name: 'id', fieldType: { type: 'INTEGER', nullable: false }, description: 'key' }, { name: 'tags', fieldType: { type: 'ARRAY', elementType: { type: 'VARCHAR', length: 2147483647 } } }]
+		}) as RowType;
+		assert.strictEqual(json.fields[0].description, 'key');
+		assert.strictEqual(formatLogicalType(json), 'ROW<id INT NOT NULL, tags ARRAY<STRING>>');
+	});
+
+	test('formats types as SQL and round-trips through the parser', () => {
+		const cases = [
+			'DECIMAL(10, 2) NOT NULL',
+			'INT',
+			'STRING',
+			'BYTES',
+			'VARCHAR(20)',
+			'TIMESTAMP_LTZ(3)',
+			'TIMESTAMP(6)',
+			'TIME(0)',
+			'ARRAY<BIGINT NOT NULL>',
+			'MAP<STRING, DOUBLE>',
+			'ROW<id INT, `geo point` ROW<x DOUBLE, y DOUBLE>> NOT NULL'
+		];
+		for (const sql of cases) {
+			assert.strictEqual(formatLogicalType(parseLogicalType(sql)), sql);
+		}
+		assert.strictEqual(formatLogicalType(parseLogicalType({ type: 'INTERVAL_DAY_TIME' })), 'INTERVAL DAY TO SECOND');
+	});
+
+	test('falls back to OTHER for types it does not model', () => {
+		assert.deepStrictEqual(parseLogicalType({ type: 'RAW', nullable: false }), { type: 'OTHER', name: 'RAW', nullable: false });
+		assert.deepStrictEqual(parseLogicalType('GEOMETRY'), { type: 'OTHER', name: 'GEOMETRY', nullable: true });
+		assert.strictEqual(formatLogicalType(parseLogicalType({ type: 'STRUCTURED_TYPE', nullable: false })), 'STRUCTURED_TYPE NOT NULL');
+	});
+
+	test('never throws on malformed descriptors', () => {
+		const inputs: unknown[] = [
+			null, undefined, 42, '', '   ', [], {}, { type: null }, { type: {} },
+			'FOO(', 'DECIMAL(10,', 'VARCHAR(abc)', 'ROW<', 'ROW<a INT,>', 'ARRAY<>', 'MAP<INT>', 'ARRAY<ARRAY<INT>',
+			{ type: 'ROW', fields: 'x' }, { type: 'ROW', fields: [null, {}] }, { type: 'ARRAY' }, { type: 'MAP', keyType: 7 },
+			{ type: 'DECIMAL', precision: '10' }
+		];
+		for (const input of inputs) {
+			let type: LogicalType | undefined;
+			assert.doesNotThrow(() => { type = parseLogicalType(input); }, `parse ${JSON.stringify(input)}`);
+			assert.doesNotThrow(() => formatLogicalType(type!), `format ${JSON.stringify(input)}`);
+		}
+
+		assert.deepStrictEqual(parseLogicalType(null), { type: 'OTHER', name: 'UNKNOWN', nullable: true });
+		assert.deepStrictEqual((parseLogicalType({ type: 'ROW', fields: [null, {}] }) as RowType).fields.map(f => f.name), ['f0', 'f1']);
+	});
+});
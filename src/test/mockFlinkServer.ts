@@ -0,0 +1,451 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * In-process stand-in for the Flink SQL Gateway and JobManager REST APIs.
+ * Both APIs are served from the same port, so a connection can point its
+ * gateway and JobManager URLs at `server.url`.
+ */
+
+export interface MockRow {
+    kind?: 'INSERT' | 'UPDATE_BEFORE' | 'UPDATE_AFTER' | 'DELETE';
+    fields: any[];
+}
+
+export interface MockStatement {
+    columns?: { name: string; logicalType: any }[];
+    // Result pages, one per token; EOS follows the last page
+    pages?: MockRow[][];
+    // NOT_READY responses (and RUNNING status) before the first page
+    notReadyFetches?: number;
+    isQueryResult?: boolean;
+    jobID?: string;
+    // Fails the operation with this root cause (reported with a server-side stack)
+    error?: string;
+}
+
+interface MockOperation {
+    handle: string;
+    statement: string;
+    spec: MockStatement;
+    fetches: number;
+    status: 'RUNNING' | 'FINISHED' | 'CANCELED' | 'CLOSED' | 'ERROR';
+}
+
+interface MockSavepoint {
+    jobId: string;
+    location: string;
+    polls: number;
+    stop: boolean;
+}
+
+interface MockSession {
+    handle: string;
+    name: string;
+    properties: Record<string, string>;
+    heartbeats: number;
+    operations: Map<string, MockOperation>;
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    // Query string including '?', empty if none
+    query: string;
+    body?: any;
+}
+
+export class MockFlinkServer {
+    // Versions reported by /api_versions (upper case, like the real gateway)
+    apiVersions = ['V1', 'V2', 'V3'];
+    completionCandidates: string[] = [];
+    jobs: any[] = [];
+    taskManagers: any[] = [];
+    // Jars listed by /jars, added by /jars/upload
+    jars: any[] = [];
+    // Savepoints report IN_PROGRESS for this many status polls
+    savepointPolls = 1;
+    // Fails savepoints with this cause
+    savepointFailure: string | undefined;
+    // Answers requests to these paths with the status (e.g. 401 for an expired token)
+    readonly failingPaths = new Map<string, number>();
+    // Canned JobManager GET responses by path (checkpoints, exceptions, metrics, ...); strings are sent as text (logs)
+    readonly jobManagerResponses = new Map<string, any>();
+
+    readonly requests: RecordedRequest[] = [];
+    readonly sessions = new Map<string, MockSession>();
+
+    private statements: { match: RegExp; spec: MockStatement }[] = [];
+    private savepoints = new Map<string, MockSavepoint>();
+    private server: http.Server | undefined;
+    private nextId = 1;
+
+    get url(): string {
+        const address = this.server?.address() as AddressInfo | null;
+        if (!address) {
+            throw new Error('Mock server is not running');
+        }
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    async start(): Promise<string> {
+        this.server = http.createServer((req, res) => this.handle(req, res));
+        await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+        return this.url;
+    }
+
+    async stop(): Promise<void> {
+        if (!this.server) { return; }
+        this.server.closeAllConnections();
+        await new Promise<void>(resolve => this.server!.close(() => resolve()));
+        this.server = undefined;
+    }
+
+    /**
+     * Registers the result of statements matching `match` (case-insensitive substring or regex).
+     * Later registrations win. Unregistered statements finish immediately with an OK result.
+     */
+    onStatement(match: string | RegExp, spec: MockStatement): this {
+        const regex = typeof match === 'string' ? new RegExp(match.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i') : match;
+        this.statements.unshift({ match: regex, spec });
+        return this;
+    }
+
+    reset() {
+        this.apiVersions = ['V1', 'V2', 'V3'];
+        this.completionCandidates = [];
+        this.jobs = [];
+        this.taskManagers = [];
+        this.jars = [];
+        this.savepointPolls = 1;
+        this.savepointFailure = undefined;
+        this.statements = [];
+        this.savepoints.clear();
+        this.jobManagerResponses.clear();
+        this.failingPaths.clear();
+        this.requests.length = 0;
+        this.sessions.clear();
+    }
+
+    // Statements the gateway received, in order
+    get executedStatements(): string[] {
+        return this.requests
+            .filter(r => r.method === 'POST' && /\/statements$/.test(r.path))
+            .map(r => r.body?.statement);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const method = req.method || 'GET';
+        const text = await new Promise<string>(resolve => {
+            let data = '';
+            req.on('data', chunk => data += chunk);
+            req.on('end', () => resolve(data));
+        });
+        // Uploads are recorded as the raw multipart body
+        const body = !text ? undefined : req.headers['content-type']?.startsWith('multipart/') ? text : JSON.parse(text);
+        this.requests.push({ method, path: url.pathname, query: url.search, body });
+
+        try {
+            const result = this.route(method, url, body);
+            this.send(res, result.status, result.body);
+        } catch (e: any) {
+            this.send(res, 500, serverError(e.message));
+        }
+    }
+
+    private send(res: http.ServerResponse, status: number, body: any) {
+        if (typeof body === 'string') {
+            res.writeHead(status, { 'Content-Type': 'text/plain' });
+            res.end(body);
+            return;
+        }
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body ?? {}));
+    }
+
+    private route(method: string, url: URL, body: any): { status: number; body?: any } {
+        const path = url.pathname;
+        const failure = this.failingPaths.get(path);
+        if (failure) {
+            return { status: failure, body: { errors: [`Failing with ${failure}: ${path}`] } };
+        }
+
+        // --- JobManager ---
+        if (method === 'GET' && this.jobManagerResponses.has(path)) {
+            return ok(this.jobManagerResponses.get(path));
+        }
+        if (method === 'GET' && path === '/overview') {
+            return ok({
+                'taskmanagers': this.taskManagers.length,
+                'slots-total': this.taskManagers.reduce((n, tm) => n + (tm.slotsNumber || 0), 0),
+                'slots-available': this.taskManagers.reduce((n, tm) => n + (tm.freeSlots || 0), 0),
+                'jobs-running': this.jobs.filter(j => j.state === 'RUNNING').length,
+                'flink-version': '1.20.0'
+            });
+        }
+        if (method === 'GET' && path === '/jobs/overview') {
+            return ok({ jobs: this.jobs });
+        }
+        if (method === 'GET' && path === '/taskmanagers') {
+            return ok({ taskmanagers: this.taskManagers });
+        }
+        let match = path.match(/^\/jobs\/([^/]+)$/);
+        if (match) {
+            const job = this.jobs.find(j => j.jid === match![1]);
+            if (!job) {
+                return { status: 404, body: { errors: [`Job ${match[1]} not found`] } };
+            }
+            if (method === 'PATCH') {
+                job.state = 'CANCELED';
+                return { status: 202, body: {} };
+            }
+            const details = { ...job, vertices: job.vertices || [] };
+            // A rescaled job reports RESTARTING once, then runs with the upper bounds
+            if (job.state === 'RESTARTING') {
+                job.state = 'RUNNING';
+                for (const vertex of job.vertices || []) {
+                    vertex.parallelism = job.resourceRequirements?.[vertex.id]?.parallelism.upperBound ?? vertex.parallelism;
+                }
+            }
+            return ok(details);
+        }
+        match = path.match(/^\/jobs\/([^/]+)\/resource-requirements$/);
+        if (match) {
+            const job = this.jobs.find(j => j.jid === match![1]);
+            if (!job?.resourceRequirements) {
+                throw new Error('java.lang.UnsupportedOperationException: Resource requirements are only supported by the adaptive scheduler.');
+            }
+            if (method === 'PUT') {
+                job.resourceRequirements = body;
+                job.state = 'RESTARTING';
+                return ok({});
+            }
+            return ok(job.resourceRequirements);
+        }
+        match = path.match(/^\/jobs\/([^/]+)\/(savepoints|stop)(?:\/([^/]+))?$/);
+        if (match) {
+            return this.savepoint(method, match[1], match[2] === 'stop', match[3], body);
+        }
+        if (path === '/jars' || path.startsWith('/jars/')) {
+            return this.jar(method, path, body);
+        }
+
+        // --- SQL Gateway ---
+        if (method === 'GET' && path === '/api_versions') {
+            return ok({ versions: this.apiVersions });
+        }
+
+        // Unversioned paths use the latest version, like the real gateway
+        match = path.match(/^(?:\/v(\d+))?(\/.*)$/);
+        const version = match?.[1] ? `V${match[1]}` : this.apiVersions[this.apiVersions.length - 1];
+        const endpoint = match?.[2] || path;
+        if (!this.apiVersions.includes(version)) {
+            return { status: 404, body: { errors: [`Not found: ${path}`] } };
+        }
+
+        if (method === 'GET' && endpoint === '/info') {
+            return ok({ productName: 'Apache Flink', version: '1.20.0' });
+        }
+        if (method === 'POST' && endpoint === '/sessions') {
+            const handle = this.id('session');
+            this.sessions.set(handle, {
+                handle,
+                name: body?.sessionName,
+                properties: body?.properties || {},
+                heartbeats: 0,
+                operations: new Map()
+            });
+            return ok({ sessionHandle: handle });
+        }
+
+        match = endpoint.match(/^\/sessions\/([^/]+)(\/.*)?$/);
+        if (!match) {
+            return { status: 404, body: { errors: [`Not found: ${path}`] } };
+        }
+        const session = this.sessions.get(match[1]);
+        if (!session) {
+            throw new Error(`org.apache.flink.table.gateway.api.utils.SqlGatewayException: Session '${match[1]}' does not exist.`);
+        }
+        const rest = match[2] || '';
+
+        if (rest === '') {
+            if (method === 'DELETE') {
+                this.sessions.delete(session.handle);
+                return ok({ status: 'CLOSED' });
+            }
+            return ok({ properties: { 'execution.runtime-mode': 'streaming', ...session.properties } });
+        }
+        if (method === 'POST' && rest === '/heartbeat') {
+            session.heartbeats++;
+            return ok({});
+        }
+        if (rest === '/complete-statement') {
+            if (version === 'V1') {
+                return { status: 404, body: { errors: [`Not found: ${path}`] } };
+            }
+            // Served as GET with a JSON body, like the real gateway
+            if (method !== 'GET') {
+                return { status: 405, body: { errors: [`Method ${method} not allowed: ${path}`] } };
+            }
+            return ok({ candidates: this.completionCandidates });
+        }
+        if (method === 'POST' && rest === '/statements') {
+            const handle = this.id('operation');
+            const statement: string = body?.statement || '';
+            const spec = this.statements.find(s => s.match.test(statement))?.spec || {};
+            session.operations.set(handle, { handle, statement, spec, fetches: 0, status: 'RUNNING' });
+            return ok({ operationHandle: handle });
+        }
+
+        match = rest.match(/^\/operations\/([^/]+)\/(status|cancel|close|result\/(\d+))$/);
+        const operation = match ? session.operations.get(match[1]) : undefined;
+        if (!match || !operation) {
+            throw new Error(`org.apache.flink.table.gateway.api.utils.SqlGatewayException: Can not find the submitted operation in the OperationManager with the ${match?.[1]}.`);
+        }
+
+        switch (match[2]) {
+            case 'status':
+                return ok({ status: this.operationStatus(operation) });
+            case 'cancel':
+                operation.status = 'CANCELED';
+                return ok({ status: 'CANCELED' });
+            case 'close':
+                operation.status = 'CLOSED';
+                session.operations.delete(operation.handle);
+                return ok({ status: 'CLOSED' });
+        }
+
+        // Fetch results
+        if (version !== 'V1' && url.searchParams.get('rowFormat') !== 'JSON') {
+            return { status: 400, body: { errors: ['Required query parameter rowFormat is missing'] } };
+        }
+        return ok(this.fetchResults(version, session, operation, parseInt(match[3], 10)));
+    }
+
+    private savepoint(method: string, jobId: string, stop: boolean, triggerId: string | undefined, body: any): { status: number; body?: any } {
+        if (method === 'POST') {
+            const directory = (stop ? body?.targetDirectory : body?.['target-directory']) || 'file:/tmp/savepoints';
+            const id = this.id('trigger');
+            this.savepoints.set(id, { jobId, location: `${directory}/savepoint-${jobId}-${id}`, polls: 0, stop });
+            return { status: 202, body: { 'request-id': id } };
+        }
+
+        const savepoint = triggerId ? this.savepoints.get(triggerId) : undefined;
+        if (!savepoint || savepoint.jobId !== jobId) {
+            return { status: 404, body: { errors: [`Unknown trigger ${triggerId}`] } };
+        }
+        if (savepoint.polls++ < this.savepointPolls) {
+            return ok({ status: { id: 'IN_PROGRESS' } });
+        }
+        if (this.savepointFailure) {
+            return ok({ status: { id: 'COMPLETED' }, operation: { 'failure-cause': { class: 'java.lang.Exception', 'stack-trace': `${this.savepointFailure}\n\tat org.apache.flink.runtime.checkpoint.CheckpointCoordinator` } } });
+        }
+        if (savepoint.stop) {
+            const job = this.jobs.find(j => j.jid === jobId);
+            if (job) { job.state = 'FINISHED'; }
+        }
+        return ok({ status: { id: 'COMPLETED' }, operation: { location: savepoint.location } });
+    }
+
+    private jar(method: string, path: string, body: any): { status: number; body?: any } {
+        if (method === 'GET' && path === '/jars') {
+            return ok({ address: this.url, files: this.jars });
+        }
+        if (method === 'POST' && path === '/jars/upload') {
+            const name = /filename="([^"]+)"/.exec(body || '')?.[1];
+            if (!name) {
+                return { status: 400, body: { errors: ['Exactly 1 file must be sent, received 0.'] } };
+            }
+            const id = `${this.id('jar')}_${name}`;
+            this.jars.push({ id, name, uploaded: Date.now(), entry: [{ name: 'com.example.StreamingJob', description: null }] });
+            return ok({ filename: `/tmp/flink-web-upload/${id}`, status: 'success' });
+        }
+
+        const match = path.match(/^\/jars\/([^/]+)(?:\/(run|plan))?$/);
+        const jar = match && this.jars.find(j => j.id === decodeURIComponent(match[1]));
+        if (!match || !jar) {
+            return { status: 404, body: { errors: [`Jar file ${match?.[1]} does not exist`] } };
+        }
+        if (method === 'DELETE' && !match[2]) {
+            this.jars = this.jars.filter(j => j !== jar);
+            return ok({});
+        }
+        const entryClass = body?.entryClass || jar.entry[0].name;
+        if (method === 'POST' && match[2] === 'run') {
+            const jid = this.id('job');
+            this.jobs.push({ jid, name: entryClass, state: 'RUNNING', 'start-time': Date.now() });
+            return ok({ jobid: jid });
+        }
+        if (method === 'POST' && match[2] === 'plan') {
+            return ok({ plan: { jid: 'preview', name: entryClass, nodes: [{ id: 'v1', parallelism: body?.parallelism ?? 1, description: 'Source: Sequence', inputs: [] }] } });
+        }
+        return { status: 405, body: { errors: [`${method} not allowed`] } };
+    }
+
+    private operationStatus(operation: MockOperation): string {
+        if (operation.status !== 'RUNNING') {
+            return operation.status;
+        }
+        if (operation.spec.error) {
+            return 'ERROR';
+        }
+        if (operation.fetches < (operation.spec.notReadyFetches || 0)) {
+            return 'RUNNING';
+        }
+        // Queries keep running until their results are consumed
+        return operation.spec.isQueryResult ? 'RUNNING' : 'FINISHED';
+    }
+
+    private fetchResults(version: string, session: MockSession, operation: MockOperation, token: number): any {
+        const spec = operation.spec;
+        if (spec.error) {
+            operation.status = 'ERROR';
+            throw new Error(spec.error);
+        }
+
+        const base = version === 'V1' ? '' : `/${version.toLowerCase()}`;
+        const format = version === 'V1' ? '' : '?rowFormat=JSON';
+        const uri = (t: number) => `${base}/sessions/${session.handle}/operations/${operation.handle}/result/${t}${format}`;
+        const v2Fields = version === 'V1' ? {} : {
+            resultKind: spec.columns ? 'SUCCESS_WITH_CONTENT' : 'SUCCESS',
+            isQueryResult: spec.isQueryResult === true,
+            jobID: spec.jobID
+        };
+
+        if (operation.fetches < (spec.notReadyFetches || 0)) {
+            operation.fetches++;
+            return { resultType: 'NOT_READY', ...v2Fields, nextResultUri: uri(token) };
+        }
+        operation.fetches++;
+
+        const columns = spec.columns || [{ name: 'result', logicalType: { type: 'VARCHAR', nullable: true, length: 2147483647 } }];
+        const pages = spec.pages || (spec.columns ? [] : [[{ kind: 'INSERT', fields: ['OK'] }]]);
+        const results = { columns, rowFormat: 'JSON', data: token < pages.length ? pages[token] : [] };
+
+        if (token < pages.length) {
+            return { resultType: 'PAYLOAD', ...v2Fields, results, nextResultUri: uri(token + 1) };
+        }
+
+        operation.status = 'FINISHED';
+        return { resultType: 'EOS', ...v2Fields, results };
+    }
+
+    private id(prefix: string): string {
+        return `${prefix}-${this.nextId++}`;
+    }
+}
+
+function ok(body: any) {
+    return { status: 200, body };
+}
+
+// Error body in the shape the real gateway uses, including the wrapped server-side stack
+function serverError(cause: string) {
+    return {
+        errors: [
+            'Internal server error.',
+            `<Exception on server side:\norg.apache.flink.runtime.rest.handler.RestHandlerException: Request failed.\n\tat org.apache.flink.table.gateway.rest.handler.AbstractSqlGatewayRestHandler.respondToRequest(AbstractSqlGatewayRestHandler.java:84)\nCaused by: ${cause}\n\tat org.apache.flink.table.gateway.service.SqlGatewayServiceImpl.fetchResults(SqlGatewayServiceImpl.java:229)\n>`
+        ]
+    };
+}
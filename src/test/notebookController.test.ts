@@ -0,0 +1,177 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ConnectionManager } from '../connectionManager';
+import { FlinkNotebookController } from '../notebookController';
+import { JobStatementHistory } from '../jobStatements';
+import { SessionManager } from '../sessionManager';
+import { MockFlinkServer } from './mockFlinkServer';
+import { createTestConnection, createTestContext, waitFor } from './testUtils';
+
+const EXTENSION_ID = 'Wiratama.flink-sql-toolkit';
+const TABLE_MIME = 'application/x-flink-table';
+
+suite('FlinkNotebookController (mock gateway)', () => {
+	const server = new MockFlinkServer();
+	let url: string;
+	let connectionManager: ConnectionManager;
+	let sessionManager: SessionManager;
+	let controller: FlinkNotebookController;
+	let sessionHandle: string;
+	let context: vscode.ExtensionContext;
+
+	suiteSetup(async () => {
+		url = await server.start();
+		// Activates the extension, which registers the notebook serializer
+		await vscode.extensions.getExtension(EXTENSION_ID)!.activate();
+	});
+
+	suiteTeardown(async () => {
+		await vscode.commands.executeCommand('workbench.action.closeAllEditors');
+		await server.stop();
+	});
+
+	setup(async () => {
+		server.reset();
+		context = createTestContext();
+		({ connectionManager } = await createTestConnection(context, url));
+		sessionManager = new SessionManager(context, connectionManager);
+		sessionHandle = await sessionManager.createSession('notebook', connectionManager.getFirstConnection()!.id, '');
+		controller = new FlinkNotebookController(context, connectionManager, sessionManager, sessionManager.getSession(sessionHandle)!);
+	});
+
+	teardown(() => {
+		controller.dispose();
+		sessionManager.dispose();
+		connectionManager.dispose();
+	});
+
+	// Opens a single-cell notebook with the controller under test as its kernel
+	const openCell = async (sql: string): Promise<vscode.NotebookCell> => {
+		const notebook = await vscode.workspace.openNotebookDocument('flink-sql-notebook', new vscode.NotebookData([
+			new vscode.NotebookCellData(vscode.NotebookCellKind.Code, sql, 'apache-flink')
+		]));
+		await vscode.window.showNotebookDocument(notebook);
+		await vscode.commands.executeCommand('notebook.selectKernel', { id: controller.controllerId, extension: EXTENSION_ID });
+		await waitFor(() => controller.isSelectedFor(notebook), 5000, 'kernel selection');
+		return notebook.cellAt(0);
+	};
+
+	const waitForExecution = (cell: vscode.NotebookCell) =>
+		waitFor(() => cell.executionSummary?.success !== undefined, 15000, 'cell execution');
+
+	// Runs a single-cell notebook on the controller under test and waits for it to finish
+	const runCell = async (sql: string): Promise<vscode.NotebookCell> => {
+		const cell = await openCell(sql);
+		await vscode.commands.executeCommand('notebook.cell.execute', { ranges: [{ start: 0, end: 1 }], document: cell.notebook.uri });
+		await waitForExecution(cell);
+		return cell;
+	};
+
+	const tableOutput = (cell: vscode.NotebookCell): any => {
+		const item = cell.outputs.at(-1)?.items.find(i => i.mime === TABLE_MIME);
+		return item && JSON.parse(new TextDecoder().decode(item.data));
+	};
+
+	test('reads paged batch results after the operation becomes ready', async () => {
+		server.onStatement('SELECT * FROM orders', {
+			columns: [
+				{ name: 'id', logicalType: { type: 'INTEGER', nullable: false } },
+				{ name: 'product', logicalType: { type: 'VARCHAR', nullable: true, length: 2147483647 } }
+			],
+			notReadyFetches: 3,
+			pages: [
+				[{ kind: 'INSERT', fields: [1, 'apple'] }],
+				[{ kind: 'INSERT', fields: [2, 'pear'] }]
+			]
+		});
+
+		const cell = await runCell('SELECT * FROM orders');
+
+		assert.strictEqual(cell.executionSummary!.success, true);
+		const output = tableOutput(cell);
+		assert.deepStrictEqual(output.schema.fields.map((f: any) => [f.name, f.type]), [['id', 'INT NOT NULL'], ['product', 'STRING']]);
+		assert.deepStrictEqual(output.data.map((r: any) => r.fields), [[1, 'apple'], [2, 'pear']]);
+		assert.strictEqual(output.metadata.phase, 'FINISHED');
+		assert.strictEqual(server.sessions.get(sessionHandle)!.operations.size, 0);
+	});
+
+	test('keeps every row of large batch results', async () => {
+		server.onStatement('SELECT id FROM numbers', {
+			columns: [{ name: 'id', logicalType: { type: 'INTEGER', nullable: false } }],
+			pages: [Array.from({ length: 10001 }, (_, i) => ({ fields: [i] }))]
+		});
+
+		const cell = await runCell('SELECT id FROM numbers');
+
+		const output = tableOutput(cell);
+		assert.strictEqual(output.data.length, 10001);
+		assert.deepStrictEqual(output.data[0].fields, [0]);
+	});
+
+	test('materializes streaming changelogs', async () => {
+		server.onStatement('SELECT product, COUNT(*)', {
+			columns: [
+				{ name: 'product', logicalType: { type: 'VARCHAR', nullable: true, length: 2147483647 } },
+				{ name: 'cnt', logicalType: { type: 'BIGINT', nullable: false } }
+			],
+			isQueryResult: true,
+			jobID: 'job-1',
+			pages: [
+				[{ kind: 'INSERT', fields: ['apple', 1] }],
+				[{ kind: 'UPDATE_BEFORE', fields: ['apple', 1] }, { kind: 'UPDATE_AFTER', fields: ['apple', 2] }]
+			]
+		});
+
+		const cell = await runCell('SELECT product, COUNT(*) FROM orders GROUP BY product');
+
+		assert.strictEqual(cell.executionSummary!.success, true);
+		const output = tableOutput(cell);
+		assert.deepStrictEqual(output.data.map((r: any) => r.fields), [['apple', 2]]);
+		assert.strictEqual(output.changelog.length, 3);
+		assert.strictEqual(output.metadata.isComplete, true);
+		assert.strictEqual(new JobStatementHistory(context.globalState).get('job-1')?.statement, 'SELECT product, COUNT(*) FROM orders GROUP BY product');
+	});
+
+	test('fails the cell with the server error', async () => {
+		server.onStatement('SELECT * FROM missing', {
+			error: 'org.apache.flink.table.api.ValidationException: Object \'missing\' not found'
+		});
+
+		const cell = await runCell('SELECT * FROM missing');
+
+		assert.strictEqual(cell.executionSummary!.success, false);
+		const item = cell.outputs.at(-1)!.items.find(i => i.mime === 'application/vnd.code.notebook.error')!;
+		const error = JSON.parse(new TextDecoder().decode(item.data));
+		assert.match(error.message, /ValidationException: Object 'missing' not found/);
+		assert.strictEqual(server.sessions.get(sessionHandle)!.operations.size, 0);
+	});
+
+	test('runs statements of a cell in order on the same session', async () => {
+		const cell = await runCell('SET \'parallelism.default\' = \'2\';\nCREATE TABLE t (id INT)');
+
+		assert.strictEqual(cell.executionSummary!.success, true);
+		const statements = server.requests
+			.filter(r => r.path.endsWith(`/sessions/${sessionHandle}/statements`))
+			.map(r => r.body.statement);
+		assert.deepStrictEqual(statements, ['SET \'parallelism.default\' = \'2\'', 'CREATE TABLE t (id INT)']);
+	});
+
+	test('applies restore settings to the statements of one run only', async () => {
+		const cell = await openCell('INSERT INTO sink SELECT * FROM orders');
+		await controller.executeWithConfig([cell], {
+			'execution.savepoint.path': 's3://bucket/savepoints/savepoint-1',
+			'execution.savepoint.ignore-unclaimed-state': 'true'
+		});
+		await waitForExecution(cell);
+		await vscode.commands.executeCommand('notebook.cell.execute', { ranges: [{ start: 0, end: 1 }], document: cell.notebook.uri });
+		await waitFor(() => server.executedStatements.length === 2, 15000, 'second run');
+
+		const submissions = server.requests.filter(r => r.path.endsWith('/statements')).map(r => r.body);
+		assert.deepStrictEqual(submissions[0].executionConfig, {
+			'execution.savepoint.path': 's3://bucket/savepoints/savepoint-1',
+			'execution.savepoint.ignore-unclaimed-state': 'true'
+		});
+		assert.strictEqual(submissions[1].executionConfig, undefined);
+		assert.ok(!server.executedStatements.some(s => /^(SET|RESET)/i.test(s)));
+	});
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { FlinkConnectionsProvider } from '../connectionsProvider';
+import { FlinkGatewayClient } from '../flinkClient';
+import { FlinkJobsProvider } from '../jobsProvider';
+import { MockFlinkServer } from './mockFlinkServer';
+import { createTestConnection, createTestContext, waitFor } from './testUtils';
+
+suite('Tree providers (mock gateway)', () => {
+	const server = new MockFlinkServer();
+	let url: string;
+
+	suiteSetup(async () => {
+		url = await server.start();
+	});
+
+	suiteTeardown(async () => {
+		await server.stop();
+	});
+
+	setup(() => {
+		server.reset();
+	});
+
+	const labels = async (provider: vscode.TreeDataProvider<vscode.TreeItem>) =>
+		((await provider.getChildren()) || []).map(item => item.label);
+
+	test('splits jobs into running and history', async () => {
+		server.jobs = [
+			{ jid: 'a', name: 'old', state: 'FINISHED', 'start-time': 1000 },
+			{ jid: 'b', name: 'live', state: 'RUNNING', 'start-time': 2000 },
+			{ jid: 'c', name: 'newer', state: 'CANCELED', 'start-time': 3000 }
+		];
+		const client = new FlinkGatewayClient(url, url, { maxRetries: 0 });
+		const running = new FlinkJobsProvider(client, 'RUNNING');
+		const history = new FlinkJobsProvider(client, 'HISTORY');
+
+		try {
+			assert.deepStrictEqual(await labels(running), ['live']);
+			assert.deepStrictEqual(await labels(history), ['newer', 'old']);
+		} finally {
+			running.dispose();
+			history.dispose();
+		}
+	});
+
+	test('shows the JobManager as offline when it cannot be reached', async () => {
+		const provider = new FlinkJobsProvider(new FlinkGatewayClient(url, 'http://127.0.0.1:9', { maxRetries: 0 }), 'HISTORY');
+		try {
+			assert.deepStrictEqual(await labels(provider), ['JobManager Offline']);
+		} finally {
+			provider.dispose();
+		}
+	});
+
+	test('reports connection status per endpoint', async () => {
+		const { connectionManager, connection } = await createTestConnection(createTestContext(), url, 'http://127.0.0.1:9');
+		const provider = new FlinkConnectionsProvider(connectionManager);
+
+		try {
+			const color = (item: vscode.TreeItem) => ((item.iconPath as vscode.ThemeIcon).color as vscode.ThemeColor).id;
+			const [item] = (await provider.getChildren()) || [];
+			assert.strictEqual(item.connection?.id, connection.id);
+
+			// The status check runs in the background after construction
+			const [gateway, jobManager] = await waitFor(async () => {
+				const details = (await provider.getChildren(item)) || [];
+				return color(details[0]) === 'charts.green' && details;
+			}, 10000, 'connection status') as vscode.TreeItem[];
+			assert.strictEqual(color(jobManager), 'charts.red');
+			assert.strictEqual(gateway.description, url);
+			assert.strictEqual(item.description, 'offline');
+		} finally {
+			provider.dispose();
+			connectionManager.dispose();
+		}
+	});
+});
@@ -0,0 +1,153 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { ConnectionManager, FlinkConnection } from '../connectionManager';
+import { SessionManager } from '../sessionManager';
+import { FlinkSessionsProvider } from '../sessionsProvider';
+import { MockFlinkServer } from './mockFlinkServer';
+import { createTestConnection, createTestContext } from './testUtils';
+
+suite('SessionManager (mock gateway)', () => {
+	const server = new MockFlinkServer();
+	let url: string;
+	let connectionManager: ConnectionManager;
+	let sessionManager: SessionManager;
+	let connection: FlinkConnection;
+
+	suiteSetup(async () => {
+		url = await server.start();
+	});
+
+	suiteTeardown(async () => {
+		await server.stop();
+	});
+
+	setup(async () => {
+		server.reset();
+		const context = createTestContext();
+		({ connectionManager, connection } = await createTestConnection(context, url));
+		sessionManager = new SessionManager(context, connectionManager);
+	});
+
+	teardown(() => {
+		sessionManager.dispose();
+		connectionManager.dispose();
+	});
+
+	test('creates a session on the gateway and makes it active', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+
+		assert.ok(server.sessions.has(handle));
+		assert.strictEqual(server.sessions.get(handle)!.name, 'analytics');
+		assert.strictEqual(sessionManager.getCurrentSessionHandle(), handle);
+		assert.deepStrictEqual(sessionManager.getAllSessions().map(s => s.name), ['analytics']);
+	});
+
+	test('sends heartbeats and flags sessions whose heartbeat fails', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+		const provider = new FlinkSessionsProvider(sessionManager, connectionManager);
+
+		await sessionManager.sendHeartbeats();
+		assert.strictEqual(server.sessions.get(handle)!.heartbeats, 1);
+		assert.strictEqual(sessionManager.getHeartbeatError(handle), undefined);
+
+		// The gateway expired the session
+		server.sessions.delete(handle);
+		await sessionManager.sendHeartbeats();
+		assert.match(sessionManager.getHeartbeatError(handle) || '', /does not exist/);
+
+		const [item] = await provider.getChildren() as vscode.TreeItem[];
+		assert.strictEqual((item.iconPath as vscode.ThemeIcon).id, 'warning');
+		assert.match(String(item.description), /heartbeat failed/);
+		provider.dispose();
+	});
+
+	test('recovers a session the gateway no longer knows', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+		server.sessions.delete(handle);
+
+		const recovered = await sessionManager.validateOrRecoverSession(handle);
+
+		assert.notStrictEqual(recovered, handle);
+		assert.ok(server.sessions.has(recovered));
+		assert.deepStrictEqual(sessionManager.getAllSessions().map(s => s.name), ['default']);
+	});
+
+	test('finds sessions that are idle or lost as stale', async () => {
+		const idle = await sessionManager.createSession('idle', connection.id, '');
+		const lost = await sessionManager.createSession('lost', connection.id, '');
+		const active = await sessionManager.createSession('active', connection.id, '');
+
+		sessionManager.getSession(idle)!.lastUsedAt = Date.now() - 24 * 60 * 60 * 1000;
+		await sessionManager.touchSession(active);
+		server.sessions.delete(lost);
+
+		const { stale, unchecked } = await sessionManager.findStaleSessions();
+		assert.deepStrictEqual(stale.map(s => s.handle).sort(), [idle, lost].sort());
+		assert.strictEqual(unchecked.length, 0);
+	});
+
+	test('keeps sessions that could not be checked', async () => {
+		const idle = await sessionManager.createSession('idle', connection.id, '');
+		const active = await sessionManager.createSession('active', connection.id, '');
+		sessionManager.getSession(idle)!.lastUsedAt = Date.now() - 24 * 60 * 60 * 1000;
+
+		// Expired credentials say nothing about whether the sessions still exist
+		server.failingPaths.set(`/v3/sessions/${idle}`, 401);
+		server.failingPaths.set(`/v3/sessions/${active}`, 401);
+
+		const { stale, unchecked } = await sessionManager.findStaleSessions();
+		assert.deepStrictEqual(stale, []);
+		assert.deepStrictEqual(unchecked.map(u => u.session.handle).sort(), [idle, active].sort());
+		assert.match(unchecked[0].error, /401/);
+	});
+
+	test('uses one hidden metadata session per connection', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+
+		const metadata = await sessionManager.getMetadataSession(handle);
+		assert.strictEqual(await sessionManager.getMetadataSession(handle), metadata);
+		assert.notStrictEqual(metadata, handle);
+		assert.ok(server.sessions.has(metadata));
+		assert.ok(!sessionManager.getAllSessions().some(s => s.handle === metadata));
+		// Reused without checking it first
+		assert.ok(!server.requests.some(r => r.method === 'GET' && r.path.endsWith(`/sessions/${metadata}`)));
+	});
+
+	test('keeps the metadata session alive and replaces it once when it expired', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+		const metadata = await sessionManager.getMetadataSession(handle);
+
+		await sessionManager.sendHeartbeats();
+		assert.strictEqual(server.sessions.get(metadata)!.heartbeats, 1);
+
+		// Concurrent callers that saw it expire share one replacement, the old handle is closed
+		const [first, second] = await Promise.all([
+			sessionManager.getMetadataSession(handle, metadata),
+			sessionManager.getMetadataSession(handle, metadata)
+		]);
+		assert.notStrictEqual(first, metadata);
+		assert.strictEqual(second, first);
+		assert.ok(!server.sessions.has(metadata));
+		assert.strictEqual(server.sessions.size, 2);
+
+		// A session lost on the gateway is dropped by the heartbeat and recreated on next use
+		server.sessions.delete(first);
+		await sessionManager.sendHeartbeats();
+		const recreated = await sessionManager.getMetadataSession(handle);
+		assert.notStrictEqual(recreated, first);
+		assert.ok(server.sessions.has(recreated));
+	});
+
+	test('closes tracked operations once', async () => {
+		const handle = await sessionManager.createSession('analytics', connection.id, '');
+		const client = sessionManager.getClientForSession(handle)!;
+		const { statementHandle } = await client.executeStatement(handle, 'SELECT 1');
+
+		sessionManager.lifecycle.trackOperation(handle, statementHandle);
+		await sessionManager.lifecycle.closeOperation(client, handle, statementHandle);
+		await sessionManager.lifecycle.closeOperation(client, handle, statementHandle);
+
+		assert.strictEqual(server.sessions.get(handle)!.operations.size, 0);
+		assert.strictEqual(server.requests.filter(r => r.method === 'DELETE' && r.path.endsWith('/close')).length, 1);
+	});
+});
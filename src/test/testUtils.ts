@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { ConnectionManager, FlinkConnection } from '../connectionManager';
+
+class MemoryMemento implements vscode.Memento {
+    private values = new Map<string, any>();
+
+    keys(): readonly string[] {
+        return [...this.values.keys()];
+    }
+
+    get<T>(key: string, defaultValue?: T): T | undefined {
+        return this.values.has(key) ? this.values.get(key) : defaultValue;
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, value);
+        }
+    }
+
+    setKeysForSync(): void { }
+}
+
+class MemorySecretStorage implements vscode.SecretStorage {
+    private values = new Map<string, string>();
+    private _onDidChange = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+    readonly onDidChange = this._onDidChange.event;
+
+    async get(key: string): Promise<string | undefined> {
+        return this.values.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+        this._onDidChange.fire({ key });
+    }
+
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+        this._onDidChange.fire({ key });
+    }
+
+    async keys(): Promise<string[]> {
+        return [...this.values.keys()];
+    }
+}
+
+/**
+ * Extension context with in-memory state and secrets, so managers under test
+ * don't share storage with the extension instance running in the test host.
+ */
+export function createTestContext(): vscode.ExtensionContext {
+    return {
+        subscriptions: [],
+        workspaceState: new MemoryMemento(),
+        globalState: new MemoryMemento(),
+        secrets: new MemorySecretStorage()
+    } as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * Connection manager holding a single connection to the given endpoints
+ * (without the 'Local' connection migrated from the default settings).
+ */
+export async function createTestConnection(
+    context: vscode.ExtensionContext,
+    gatewayUrl: string,
+    jobManagerUrl: string = gatewayUrl
+): Promise<{ connectionManager: ConnectionManager; connection: FlinkConnection }> {
+    const connectionManager = new ConnectionManager(context);
+    for (const existing of connectionManager.getAllConnections()) {
+        await connectionManager.removeConnection(existing.id);
+    }
+    const connection = await connectionManager.addConnection('mock', gatewayUrl, jobManagerUrl);
+    return { connectionManager, connection };
+}
+
+/**
+ * Polls `condition` until it returns a truthy value or the timeout expires.
+ */
+export async function waitFor<T>(condition: () => T | Promise<T>, timeoutMs: number = 10000, message: string = 'condition'): Promise<T> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const result = await condition();
+        if (result) {
+            return result;
+        }
+        await new Promise(r => setTimeout(r, 50));
+    }
+    throw new Error(`Timed out waiting for ${message}`);
+}
@@ -0,0 +1,193 @@
+import * as vscode from 'vscode';
+import { FlinkGatewayClient } from './flinkClient';
+import { Logger } from './utils/logger';
+import { WebviewHelper } from './utils/webviewHelper';
+
+// Thread states in display order, most interesting for a stuck job first
+const THREAD_STATES = ['BLOCKED', 'RUNNABLE', 'WAITING', 'TIMED_WAITING', 'NEW', 'TERMINATED'];
+
+interface ThreadInfo {
+    name: string;
+    state: string;
+    stack: string;
+}
+
+// The first line of a stringified ThreadInfo: "name" Id=42 WAITING on java.lang.Object@1a2b3c
+function toThreadInfo(raw: any): ThreadInfo {
+    const stack: string = raw.stringifiedThreadInfo || '';
+    const state = /\bId=\d+ (\w+)/.exec(stack.split('\n')[0])?.[1] || 'UNKNOWN';
+    return { name: raw.threadName || stack.split('\n')[0], state, stack };
+}
+
+/**
+ * Thread dump of a TaskManager (or the JobManager), grouped by thread state with a
+ * filter over thread names and stack traces. Refresh takes a new dump.
+ */
+export class ThreadDumpPanel implements vscode.Disposable {
+    private static panels = new Map<string, ThreadDumpPanel>();
+
+    private disposables: vscode.Disposable[] = [];
+    private disposed = false;
+    private dumpText = '';
+
+    static show(client: FlinkGatewayClient, taskManagerId?: string) {
+        const key = taskManagerId || 'jobmanager';
+        const existing = ThreadDumpPanel.panels.get(key);
+        if (existing) {
+            existing.client = client;
+            existing.panel.reveal();
+            existing.refresh();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'flinkThreadDump',
+            `Thread Dump: ${taskManagerId ? taskManagerId.split('-')[0] : 'JobManager'}`,
+            vscode.ViewColumn.One,
+            { enableScripts: true, retainContextWhenHidden: true }
+        );
+        const threadDumpPanel = new ThreadDumpPanel(panel, client, taskManagerId);
+        ThreadDumpPanel.panels.set(key, threadDumpPanel);
+        threadDumpPanel.refresh();
+    }
+
+    private constructor(
+        private readonly panel: vscode.WebviewPanel,
+        private client: FlinkGatewayClient,
+        private readonly taskManagerId: string | undefined
+    ) {
+        this.disposables.push(
+            panel.webview.onDidReceiveMessage(async message => {
+                if (message.command === 'refresh') {
+                    await this.refresh();
+                } else if (message.command === 'copy') {
+                    await vscode.env.clipboard.writeText(this.dumpText);
+                    vscode.window.showInformationMessage('Thread dump copied to clipboard');
+                }
+            }),
+            panel.onDidDispose(() => this.dispose())
+        );
+    }
+
+    dispose() {
+        if (this.disposed) { return; }
+        this.disposed = true;
+        ThreadDumpPanel.panels.delete(this.taskManagerId || 'jobmanager');
+        this.disposables.forEach(d => d.dispose());
+        this.panel.dispose();
+    }
+
+    async refresh(): Promise<void> {
+        try {
+            const dump = await this.client.getThreadDump(this.taskManagerId);
+            if (this.disposed) { return; }
+            if (!dump) {
+                this.panel.webview.html = this.getHtml(undefined);
+                return;
+            }
+            const threads: ThreadInfo[] = (dump.threadInfos || []).map(toThreadInfo);
+            this.dumpText = threads.map(t => t.stack).join('\n');
+            this.panel.webview.html = this.getHtml(threads);
+        } catch (error: any) {
+            Logger.error(`[ThreadDump] Failed to load thread dump of ${this.taskManagerId || 'the JobManager'}:`, error.message);
+            if (!this.disposed) {
+                this.panel.webview.html = this.getHtml(undefined);
+            }
+        }
+    }
+
+    private getHtml(threads: ThreadInfo[] | undefined): string {
+        const esc = WebviewHelper.escapeHtml;
+        const owner = this.taskManagerId ? `TaskManager ${this.taskManagerId}` : 'JobManager';
+
+        let body: string;
+        if (!threads) {
+            body = '<div class="error">The thread dump is not available. The JobManager may be offline or the TaskManager no longer registered.</div>';
+        } else {
+            const byState = new Map<string, ThreadInfo[]>();
+            for (const thread of threads) {
+                byState.set(thread.state, [...(byState.get(thread.state) || []), thread]);
+            }
+            const rank = (state: string) => THREAD_STATES.includes(state) ? THREAD_STATES.indexOf(state) : THREAD_STATES.length;
+            const states = [...byState.keys()].sort((a, b) => rank(a) - rank(b));
+
+            const groups = states.map(state => {
+                const stateThreads = byState.get(state)!.sort((a, b) => a.name.localeCompare(b.name));
+                return `
+    <details class="group" open>
+        <summary><span class="state state-${esc(state.toLowerCase())}">${esc(state)}</span> <span class="muted">${stateThreads.length}</span></summary>
+        ${stateThreads.map(t => `
+        <details class="thread" data-search="${esc(`${t.name}\n${t.stack}`.toLowerCase())}">
+            <summary>${esc(t.name)}</summary>
+            <pre>${esc(t.stack)}</pre>
+        </details>`).join('')}
+    </details>`;
+            }).join('');
+
+            body = `
+    <div class="grid">
+        <div class="card"><div class="card-label">Threads</div><div class="card-value">${threads.length}</div></div>
+        ${states.map(state => `<div class="card"><div class="card-label">${esc(state)}</div><div class="card-value state-${esc(state.toLowerCase())}">${byState.get(state)!.length}</div></div>`).join('')}
+    </div>
+    <input id="filter" type="search" placeholder="Filter by thread name or stack frame (e.g. a UDF class)">
+    ${groups || '<div class="muted">No threads reported</div>'}`;
+        }
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        :root {
+            --border: var(--vscode-widget-border, var(--vscode-panel-border));
+            --sub-fg: var(--vscode-descriptionForeground);
+            --accent: var(--vscode-textLink-foreground);
+        }
+        body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-editor-foreground); padding: 10px 20px; }
+        .header { display: flex; align-items: baseline; gap: 10px; margin-bottom: 15px; border-bottom: 1px solid var(--border); padding-bottom: 5px; }
+        .title { font-weight: bold; font-size: 1.2em; }
+        .header button:first-of-type { margin-left: auto; }
+        .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(110px, 1fr)); gap: 8px; margin-bottom: 15px; }
+        .card { border: 1px solid var(--border); padding: 8px; border-radius: 4px; text-align: center; }
+        .card-label { color: var(--sub-fg); font-size: 0.8em; margin-bottom: 2px; }
+        .card-value { font-weight: bold; font-size: 1.3em; }
+        .muted { color: var(--sub-fg); }
+        .error { color: var(--vscode-errorForeground); text-align: center; padding: 20px; }
+        .state-runnable { color: var(--vscode-charts-green); }
+        .state-blocked { color: var(--vscode-errorForeground); }
+        .state-waiting, .state-timed_waiting { color: var(--vscode-charts-yellow); }
+        button.link { background: none; border: none; padding: 0; color: var(--accent); cursor: pointer; font: inherit; }
+        input { width: 100%; box-sizing: border-box; margin-bottom: 10px; padding: 4px 6px; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, var(--border)); }
+        details.group > summary { font-weight: bold; cursor: pointer; padding: 4px 0; }
+        details.thread { margin-left: 16px; }
+        details.thread > summary { cursor: pointer; font-family: var(--vscode-editor-font-family); font-size: 0.9em; }
+        pre { font-family: var(--vscode-editor-font-family); font-size: 0.85em; white-space: pre-wrap; background: var(--vscode-textCodeBlock-background); padding: 8px; margin: 4px 0 8px; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <span class="title">${esc(owner)}</span>
+        <span class="muted">${new Date().toLocaleString()}</span>
+        <button class="link" onclick="vscode.postMessage({ command: 'copy' })">Copy All</button>
+        <button class="link" onclick="vscode.postMessage({ command: 'refresh' })">Take New Dump</button>
+    </div>
+    ${body}
+    <script>
+        const vscode = acquireVsCodeApi();
+        const filter = document.getElementById('filter');
+        if (filter) {
+            filter.addEventListener('input', () => {
+                const text = filter.value.toLowerCase();
+                document.querySelectorAll('details.thread').forEach(t => {
+                    t.style.display = !text || t.dataset.search.includes(text) ? '' : 'none';
+                    // Expand matches of a stack frame search
+                    t.open = !!text && t.dataset.search.includes(text);
+                });
+            });
+        }
+    </script>
+</body>
+</html>`;
+    }
+}
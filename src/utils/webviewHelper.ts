@@ -1,20 +1,40 @@
-
 export class WebviewHelper {
-    public static getFrameHtml(url: string): string {
-        return `
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-                <meta charset="UTF-8">
-                <style>
-                    html, body { height: 100%; width: 100%; margin: 0; padding: 0; overflow: hidden; }
-                    iframe { width: 100%; height: 100%; border: none; }
-                </style>
-            </head>
-            <body>
-                <iframe src="${url}"></iframe>
-            </body>
-            </html>
-        `;
+    // JobManager data (operator names, exception messages, paths) is untrusted in HTML
+    public static escapeHtml(value: unknown): string {
+        return String(value ?? '')
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    public static formatBytes(bytes: number | undefined | null): string {
+        if (bytes === undefined || bytes === null || bytes < 0) { return '-'; }
+        if (bytes === 0) { return '0 B'; }
+        const k = 1024;
+        const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+        const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+        return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+    }
+
+    // Record counts and rates: 950, 1.2K, 3.4M
+    public static formatCount(value: number | undefined | null): string {
+        if (value === undefined || value === null || !Number.isFinite(value) || value < 0) { return '-'; }
+        return new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+    }
+
+    public static formatDuration(ms: number | undefined | null): string {
+        if (ms === undefined || ms === null || ms < 0) { return '-'; }
+        if (ms < 1000) { return `${ms} ms`; }
+        const seconds = ms / 1000;
+        if (seconds < 60) { return `${parseFloat(seconds.toFixed(1))} s`; }
+        const minutes = Math.floor(seconds / 60);
+        if (minutes < 60) { return `${minutes}m ${Math.round(seconds % 60)}s`; }
+        return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+    }
+
+    public static formatTimestamp(ts: number | undefined | null): string {
+        return ts && ts > 0 ? new Date(ts).toLocaleString() : '-';
     }
 }
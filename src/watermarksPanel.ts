@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import { FlinkGatewayClient } from './flinkClient';
+import { JobPanel } from './jobPanel';
+import { WebviewHelper } from './utils/webviewHelper';
+
+// Long.MIN_VALUE / Long.MAX_VALUE lose precision as numbers, compare by magnitude
+const NO_WATERMARK = -9e18;
+const END_OF_INPUT = 9e18;
+
+interface VertexWatermarks {
+    vertexId: string;
+    name: string;
+    // Watermark per subtask, undefined where the subtask has not received one
+    subtasks: (number | undefined)[];
+    // Minimum over subtasks, undefined while any subtask has none
+    low: number | undefined;
+}
+
+// When the low watermark of a vertex last changed, as seen by this panel
+interface WatermarkProgress {
+    value: number | undefined;
+    changedAt: number;
+    // False until a change was observed, the watermark may have been stuck before
+    observed: boolean;
+}
+
+function parseWatermark(value: unknown): number | undefined {
+    const watermark = Number(value);
+    return Number.isFinite(watermark) && watermark > NO_WATERMARK ? watermark : undefined;
+}
+
+/**
+ * Low watermark of every vertex of a job, its lag behind wall-clock time and a
+ * warning for watermarks that stopped advancing (idle sources, stuck partitions).
+ */
+export class WatermarksPanel extends JobPanel {
+    private progress = new Map<string, WatermarkProgress>();
+
+    static show(client: FlinkGatewayClient, jobId: string, jobName?: string) {
+        JobPanel.open('flinkWatermarks', 'Watermarks', client, jobId, jobName,
+            panel => new WatermarksPanel(panel, client, jobId, jobName));
+    }
+
+    protected async render(job: any | null): Promise<string> {
+        if (!job) {
+            return this.getMessageHtml('Watermarks are not available. The JobManager may be offline or the job no longer known.', true);
+        }
+
+        const vertices = await Promise.all((job.vertices || []).map(async (v: any): Promise<VertexWatermarks> => {
+            const metrics = await this.client.getVertexWatermarks(this.jobId, v.id);
+            const reported: (number | undefined)[] = [];
+            for (const metric of metrics || []) {
+                const match = /^(\d+)\.currentInputWatermark$/.exec(metric.id);
+                if (match) {
+                    reported[Number(match[1])] = parseWatermark(metric.value);
+                }
+            }
+            // Array.from fills subtasks missing from the metrics with undefined
+            const subtasks = Array.from(reported);
+            const complete = subtasks.length > 0 && subtasks.every(w => w !== undefined);
+            return {
+                vertexId: v.id,
+                name: v.name,
+                subtasks,
+                low: complete ? Math.min(...(subtasks as number[])) : undefined
+            };
+        }));
+
+        const now = Date.now();
+        for (const v of vertices) {
+            const previous = this.progress.get(v.vertexId);
+            if (!previous) {
+                this.progress.set(v.vertexId, { value: v.low, changedAt: now, observed: false });
+            } else if (previous.value !== v.low) {
+                this.progress.set(v.vertexId, { value: v.low, changedAt: now, observed: true });
+            }
+        }
+
+        return this.getHtml(job, vertices, now);
+    }
+
+    private getHtml(job: any, vertices: VertexWatermarks[], now: number): string {
+        const esc = WebviewHelper.escapeHtml;
+        const duration = WebviewHelper.formatDuration;
+        const thresholdSeconds = vscode.workspace.getConfiguration('flink').get<number>('watermarkStallThreshold', 60);
+        const running = job.state === 'RUNNING';
+
+        const timestamp = (w: number | undefined) => w === undefined
+            ? '<span class="muted">No watermark</span>'
+            : w >= END_OF_INPUT ? 'End of input' : esc(new Date(w).toISOString().replace('T', ' ').replace('Z', ''));
+        const lag = (w: number | undefined) => w === undefined || w >= END_OF_INPUT ? '-' : duration(now - w);
+
+        const isStalled = (v: VertexWatermarks) => {
+            const progress = this.progress.get(v.vertexId);
+            return running && thresholdSeconds > 0 && v.low !== undefined && v.low < END_OF_INPUT
+                && !!progress && now - progress.changedAt > thresholdSeconds * 1000;
+        };
+        const unchangedFor = (v: VertexWatermarks) => {
+            const progress = this.progress.get(v.vertexId);
+            if (!progress || v.low === undefined) { return '-'; }
+            return `${progress.observed ? '' : '≥ '}${duration(now - progress.changedAt)}`;
+        };
+
+        const stalled = vertices.filter(isStalled);
+        const lags = vertices.map(v => v.low).filter((w): w is number => w !== undefined && w < END_OF_INPUT).map(w => now - w);
+
+        // Subtasks holding the low watermark back while others are ahead
+        const subtaskRows = (v: VertexWatermarks) => v.subtasks.map((w, i) => {
+            const holding = w === undefined || (w === v.low && v.subtasks.some(o => o !== undefined && o > w));
+            return `
+                <tr class="${holding ? 'holding' : ''}">
+                    <td>${i}</td>
+                    <td>${timestamp(w)}</td>
+                    <td>${lag(w)}</td>
+                    <td>${w !== undefined && v.low !== undefined && w < END_OF_INPUT ? duration(w - v.low) : '-'}</td>
+                </tr>`;
+        }).join('');
+
+        const rows = vertices.map(v => {
+            const spread = v.low !== undefined && v.low < END_OF_INPUT
+                ? Math.max(...(v.subtasks as number[]).filter(w => w < END_OF_INPUT)) - v.low
+                : undefined;
+            const status = isStalled(v)
+                ? `<span class="stalled">Stalled</span>`
+                : v.low === undefined
+                    ? '<span class="muted">Waiting</span>'
+                    : v.low >= END_OF_INPUT ? '<span class="muted">Finished</span>' : '<span class="status-running">Advancing</span>';
+            return `
+            <tr class="${isStalled(v) ? 'stalled-row' : ''}">
+                <td title="${esc(v.vertexId)}">${esc(v.name)}</td>
+                <td>${timestamp(v.low)}</td>
+                <td>${lag(v.low)}</td>
+                <td>${unchangedFor(v)}</td>
+                <td>${spread !== undefined ? duration(spread) : '-'}</td>
+                <td>${status}</td>
+            </tr>
+            <tr class="subtasks">
+                <td colspan="6">
+                    <details data-key="${esc(v.vertexId)}">
+                        <summary>${v.subtasks.length} subtask(s)</summary>
+                        <table>
+                            <thead><tr><th>Subtask</th><th>Watermark</th><th>Lag</th><th>Ahead of Low Watermark</th></tr></thead>
+                            <tbody>${subtaskRows(v) || '<tr><td colspan="4" class="muted">No watermarks reported</td></tr>'}</tbody>
+                        </table>
+                    </details>
+                </td>
+            </tr>`;
+        }).join('');
+
+        const warning = stalled.length > 0 ? `
+    <div class="warning">
+        ${stalled.length} watermark(s) have not advanced for more than ${duration(thresholdSeconds * 1000)}: ${stalled.map(v => esc(v.name)).join(', ')}.
+        Check for idle source partitions (<code>table.exec.source.idle-timeout</code>) or a stuck upstream subtask.
+    </div>` : '';
+
+        const body = `
+    ${warning}
+    <div class="grid">
+        <div class="card"><div class="card-label">Vertices</div><div class="card-value">${vertices.length}</div></div>
+        <div class="card"><div class="card-label">Without Watermark</div><div class="card-value">${vertices.filter(v => v.low === undefined).length}</div></div>
+        <div class="card"><div class="card-label">Stalled</div><div class="card-value ${stalled.length ? 'stalled' : ''}">${stalled.length}</div></div>
+        <div class="card"><div class="card-label">Max Lag</div><div class="card-value">${lags.length > 0 ? duration(Math.max(...lags)) : '-'}</div></div>
+    </div>
+
+    <div class="section-title">Low Watermarks <span class="muted">· times in UTC, lag relative to now</span></div>
+    <table>
+        <thead><tr><th>Vertex</th><th>Low Watermark</th><th>Lag</th><th>Unchanged For</th><th title="Between the lowest and highest subtask watermark">Subtask Spread</th><th>Status</th></tr></thead>
+        <tbody>${rows || '<tr><td colspan="6" class="muted">No vertices</td></tr>'}</tbody>
+    </table>`;
+
+        const styles = `
+        .warning { border: 1px solid var(--vscode-editorWarning-foreground); border-radius: 4px; padding: 8px; margin-bottom: 15px; }
+        .stalled { color: var(--vscode-editorWarning-foreground); font-weight: bold; }
+        tr.stalled-row { background: color-mix(in srgb, var(--vscode-editorWarning-foreground) 10%, transparent); }
+        tr.subtasks > td { border-bottom: none; padding-top: 0; }
+        tr.holding td { color: var(--vscode-editorWarning-foreground); }
+        summary { cursor: pointer; color: var(--accent); font-size: 0.9em; }
+        details table { margin: 4px 0 8px 16px; width: auto; }`;
+
+        return this.getPageHtml(body, styles);
+    }
+}